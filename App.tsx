@@ -1,28 +1,151 @@
 import React, { useState, useEffect } from 'react';
-import { Upload, Download, Sparkles, RefreshCw, Layers, Settings, Scissors, Palette, ShieldCheck, ShieldAlert, ArrowRight, ArrowDown, AlignCenter, ArrowDownToLine, Target, Maximize } from 'lucide-react';
-import { SpriteConfig, ImageDimensions, ProcessingState, CropConfig } from './types';
+import { Upload, Download, Sparkles, RefreshCw, Layers, Settings, Scissors, Palette, ShieldCheck, ShieldAlert, ArrowRight, ArrowDown, AlignCenter, ArrowDownToLine, Target, Maximize, Grid3x3, Shapes, ArrowLeft, ArrowLeftRight, Film, Crosshair, Anchor, BoxSelect, Plus, Trash2 } from 'lucide-react';
+import { SpriteConfig, KeyColor, ColorMetric, ImageDimensions, ProcessingState, CropConfig, ExportFormat, ExportOptions, ExportFile, AtlasFormat, DetectionMode, LayoutMode, PlaybackMode, FrameOffset, PivotPoint, PivotPreset, PaletteMode, DitherMethod, ExportPhase, ExportProgressHandler } from './types';
 import { SpriteCanvas } from './components/SpriteCanvas';
+import { ColorPick } from './components/PixelLoupe';
 import { PreviewPlayer } from './components/PreviewPlayer';
-import { analyzeSpriteSheet } from './services/geminiService';
+import { FrameTimeline } from './components/FrameTimeline';
+import { ClipEditor } from './components/ClipEditor';
+import { SequenceEditor } from './components/SequenceEditor';
+import { analyzeSpriteSheet, isGeminiAvailable } from './services/geminiService';
+import { detectGridLocally } from './services/gridDetector';
+import { detectSpriteIslands } from './services/spriteDetector';
+import { estimateStabilizationOffsets } from './services/stabilizer';
+import { detectBackgroundColors } from './services/backgroundDetector';
 import { generateGif } from './utils/gifBuilder';
+import { generateApng } from './utils/apngBuilder';
+import { generateWebp } from './utils/webpBuilder';
+import { generateAtlas } from './utils/atlasBuilder';
+import { generatePngSequence } from './utils/sequenceBuilder';
+import { applyClip, clipFileName } from './utils/clips';
+import { buildPivotSidecar } from './utils/pivots';
+import { parsePaletteFile } from './utils/palette';
+import { EncodedAnimation, FrameLayout, getKeySettings, hexToRgb, isBackgroundColor } from './utils/frameRenderer';
 
 const INITIAL_CONFIG: SpriteConfig = {
+  layoutMode: 'grid',
+  freeFrames: [],
   rows: 4,
   cols: 4,
+  offsetX: 0,
+  offsetY: 0,
+  spacingX: 0,
+  spacingY: 0,
+  cellWidth: null,
+  cellHeight: null,
   totalFrames: 16,
   excludedFrames: [], // Init empty
+  sequence: [],
   fps: 12,
+  frameDurations: {},
+  playbackMode: 'forward',
+  loopCount: 0,
+  frameOffsets: {},
+  pivotPreset: 'bottom-center',
+  pivotPoint: { x: 0, y: 0 },
+  framePivots: {},
   scale: 1,
   transparent: null,
   tolerance: 10,
+  extraKeyColors: [],
+  colorMetric: 'rgb',
   useFloodFill: true, 
+  floodSeeds: [],
+  edgeSoftness: 0,
+  despill: false,
+  defringe: 0,
   autoAlign: false, 
   alignMode: 'center', // Default align mode
+  trimPadding: 0,
   readOrder: 'row-major',
+  clips: [],
   crop: { top: 0, bottom: 0, left: 0, right: 0 },
   maxResolution1024: false
 };
 
+const COLOR_METRICS: { metric: ColorMetric; label: string; hint: string }[] = [
+  { metric: 'rgb', label: 'RGB 距离', hint: 'RGB 空间直线距离，速度最快。' },
+  { metric: 'weighted-rgb', label: '加权 RGB', hint: '按人眼敏感度加权的 RGB 距离。' },
+  { metric: 'hsv-hue', label: 'HSV 色相', hint: '只比较色相，适合绿幕/蓝幕：背景的明暗变化一起去除，深色描边和灰色不会被去除。容差 50% = 色相 ±90°。' },
+  { metric: 'lab76', label: 'CIELAB ΔE76', hint: '感知均匀的 Lab 距离，容差即 ΔE（100 = 黑与白）。' },
+  { metric: 'lab2000', label: 'CIELAB ΔE2000', hint: '最接近人眼感知的 ΔE，深色与饱和色背景更准确，计算较慢。' },
+];
+
+const INITIAL_EXPORT_OPTIONS: ExportOptions = {
+  webp: { lossless: true, quality: 80 },
+  atlas: { format: 'texturepacker', padding: 1 },
+  sequence: { includeManifest: true },
+  pivot: { sidecar: false },
+  palette: { mode: 'auto', maxColors: 256, dither: 'none', colors: [], alphaThreshold: 128 },
+};
+
+type ExportBuilder = (
+  image: HTMLImageElement,
+  config: SpriteConfig,
+  dimensions: ImageDimensions,
+  options: ExportOptions,
+  baseName: string,
+  onProgress: ExportProgressHandler
+) => Promise<ExportFile[]>;
+
+// Animated formats carry no anchor, so the pivot goes into an optional JSON next to them,
+// listing the frames as they were encoded
+const animationFiles = (
+  animation: EncodedAnimation,
+  config: SpriteConfig,
+  options: ExportOptions,
+  fileName: string,
+  baseName: string
+): ExportFile[] => [
+  { name: fileName, blob: animation.blob },
+  ...(options.pivot.sidecar ? [buildPivotSidecar(animation, config, baseName)] : []),
+];
+
+const EXPORT_FORMATS: Record<ExportFormat, { label: string; build: ExportBuilder }> = {
+  gif: {
+    label: 'GIF',
+    build: async (img, cfg, dims, options, baseName, onProgress) =>
+      animationFiles(await generateGif(img, cfg, dims, options.palette, onProgress), cfg, options, `${baseName}.gif`, baseName),
+  },
+  apng: {
+    label: 'APNG',
+    build: async (img, cfg, dims, options, baseName, onProgress) =>
+      animationFiles(await generateApng(img, cfg, dims, onProgress), cfg, options, `${baseName}.png`, baseName),
+  },
+  webp: {
+    label: 'WebP',
+    build: async (img, cfg, dims, options, baseName, onProgress) =>
+      animationFiles(await generateWebp(img, cfg, dims, options.webp, onProgress), cfg, options, `${baseName}.webp`, baseName),
+  },
+  atlas: {
+    label: '图集',
+    build: (img, cfg, dims, options, baseName, onProgress) => generateAtlas(img, cfg, dims, options.atlas, baseName, onProgress),
+  },
+  sequence: {
+    label: 'PNG 序列',
+    build: async (img, cfg, dims, options, baseName, onProgress) => [
+      { name: `${baseName}.zip`, blob: await generatePngSequence(img, cfg, dims, options.sequence, onProgress) },
+    ],
+  },
+};
+
+const EXPORT_PHASE_LABELS: Record<ExportPhase, string> = {
+  analyzing: '分析帧',
+  processing: '处理帧',
+  encoding: '编码',
+};
+
+const downloadFile = ({ name, blob }: ExportFile) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = name;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
 interface NumberInputProps {
   label: string;
   value: number;
@@ -81,6 +204,14 @@ const App: React.FC = () => {
   const [dimensions, setDimensions] = useState<ImageDimensions>({ width: 0, height: 0 });
   const [config, setConfig] = useState<SpriteConfig>(INITIAL_CONFIG);
   const [processingState, setProcessingState] = useState<ProcessingState>({ status: 'idle', progress: 0 });
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('gif');
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(INITIAL_EXPORT_OPTIONS);
+  const [detectionMode, setDetectionMode] = useState<DetectionMode>(isGeminiAvailable() ? 'gemini' : 'local');
+  const [detectionInfo, setDetectionInfo] = useState<{ mode: DetectionMode; confidence?: number; fallback?: boolean } | null>(null);
+  const [mergeDistance, setMergeDistance] = useState(2);
+  const [stabilizeRadius, setStabilizeRadius] = useState(8);
+  // Frame layout of the preview, drawn over the sheet
+  const [previewLayout, setPreviewLayout] = useState<FrameLayout | null>(null);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -90,6 +221,7 @@ const App: React.FC = () => {
         if (typeof ev.target?.result === 'string') {
           setImageUrl(ev.target.result);
           setProcessingState({ status: 'idle', progress: 0 });
+          setDetectionInfo(null);
           setConfig(prev => ({ ...INITIAL_CONFIG, scale: 1 })); 
         }
       };
@@ -97,26 +229,162 @@ const App: React.FC = () => {
     }
   };
 
+  const handlePaletteFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+    try {
+      const colors = await parsePaletteFile(file);
+      setExportOptions(prev => ({ ...prev, palette: { ...prev.palette, mode: 'custom', colors } }));
+    } catch (error: any) {
+      console.error("Palette import failed", error);
+      setProcessingState({ status: 'idle', progress: 0, error: error.message || '调色板导入失败。' });
+    }
+  };
+
+  const applyDetection = (result: Partial<SpriteConfig>) => {
+    setConfig(prev => ({
+      ...prev,
+      rows: result.rows ?? prev.rows,
+      cols: result.cols ?? prev.cols,
+      totalFrames: result.totalFrames ?? ((result.rows || prev.rows) * (result.cols || prev.cols))
+    }));
+  };
+
+  const handleDetectSprites = async (imageSrc: string, base: SpriteConfig) => {
+    setProcessingState({ status: 'analyzing', progress: 0 });
+    try {
+      const freeFrames = await detectSpriteIslands(imageSrc, {
+        transparent: base.transparent,
+        tolerance: base.tolerance,
+        extraKeyColors: base.extraKeyColors,
+        colorMetric: base.colorMetric,
+        mergeDistance,
+      });
+      if (freeFrames.length === 0) {
+        throw new Error("未检测到任何精灵，请检查背景透明色设置");
+      }
+      setConfig(prev => ({ ...prev, freeFrames, totalFrames: freeFrames.length, excludedFrames: [], sequence: [], frameDurations: {}, frameOffsets: {}, framePivots: {}, clips: [] }));
+      setProcessingState({ status: 'idle', progress: 0 });
+    } catch (error: any) {
+      console.error("Sprite detection failed", error);
+      setProcessingState({ status: 'idle', progress: 0, error: error.message || '精灵检测失败。' });
+    }
+  };
+
+  // Registers consecutive frames and replaces the per-frame offsets with the computed ones,
+  // after confirming when manual nudges would be lost
+  const handleStabilize = async () => {
+    if (!imageUrl) return;
+    const existing = Object.keys(config.frameOffsets).length;
+    if (existing > 0 && !window.confirm(`计算结果将覆盖已有的 ${existing} 帧偏移（包括手动微调），是否继续？`)) return;
+    setProcessingState({ status: 'analyzing', progress: 0 });
+    try {
+      const frameOffsets = await estimateStabilizationOffsets(imageUrl, config, dimensions, stabilizeRadius);
+      setConfig(prev => ({ ...prev, frameOffsets }));
+      setProcessingState({ status: 'idle', progress: 0 });
+    } catch (error: any) {
+      console.error("Stabilization failed", error);
+      setProcessingState({ status: 'idle', progress: 0, error: error.message || '运动稳定分析失败。' });
+    }
+  };
+
+  // Keys the sheet against the colors found along the cell borders. Run by the transparency
+  // toggle it stays quiet: a sheet that is already transparent just keeps the default color.
+  const handleDetectBackground = async (fromToggle: boolean) => {
+    if (!imageUrl) return;
+    setProcessingState({ status: 'analyzing', progress: 0 });
+    try {
+      const [main, ...extraKeyColors] = await detectBackgroundColors(imageUrl, config, dimensions);
+      if (!main) {
+        throw new Error("单元格边缘没有统一的背景色，图片可能已经是透明背景");
+      }
+      // Transparency may have been turned off while detecting
+      setConfig(prev => prev.transparent === null ? prev : { ...prev, transparent: main.color, tolerance: main.tolerance, extraKeyColors });
+      setProcessingState({ status: 'idle', progress: 0 });
+    } catch (error: any) {
+      console.error("Background detection failed", error);
+      setProcessingState(fromToggle
+        ? { status: 'idle', progress: 0 }
+        : { status: 'idle', progress: 0, error: error.message || '背景色检测失败。' });
+    }
+  };
+
+  // Eyedropper: a click sets the background color, Shift+click adds one. Shift+clicking a
+  // color that is removed already adds a flood fill seed there (e.g. enclosed background).
+  const handlePickColor = ({ color, point, add }: ColorPick) => {
+    setConfig(prev => {
+      const rgb = hexToRgb(color);
+      if (!add || prev.transparent === null || !rgb) return { ...prev, transparent: color };
+      if (!isBackgroundColor(getKeySettings(prev, 'alpha'), rgb)) {
+        return { ...prev, extraKeyColors: [...prev.extraKeyColors, { color, tolerance: prev.tolerance }] };
+      }
+      if (!prev.useFloodFill || prev.floodSeeds.some(seed => seed.x === point.x && seed.y === point.y)) return prev;
+      return { ...prev, floodSeeds: [...prev.floodSeeds, point] };
+    });
+  };
+
+  const updateExtraKeyColor = (index: number, patch: Partial<KeyColor>) => {
+    setConfig(prev => ({
+      ...prev,
+      extraKeyColors: prev.extraKeyColors.map((keyColor, i) => i === index ? { ...keyColor, ...patch } : keyColor),
+    }));
+  };
+
+  const handleLayoutModeChange = (layoutMode: LayoutMode) => {
+    setConfig(prev => ({
+      ...prev,
+      layoutMode,
+      // Frame indices mean different things in each layout
+      totalFrames: layoutMode === 'free' ? prev.freeFrames.length : prev.rows * prev.cols,
+      excludedFrames: [],
+      sequence: [],
+      frameDurations: {},
+      frameOffsets: {},
+      framePivots: {},
+      clips: [],
+    }));
+    if (layoutMode === 'free' && config.freeFrames.length === 0 && imageUrl) {
+      handleDetectSprites(imageUrl, config);
+    }
+  };
+
   const handleAutoDetect = async () => {
     if (!imageUrl) return;
 
+    if (config.layoutMode === 'free') {
+      await handleDetectSprites(imageUrl, config);
+      return;
+    }
+
     setProcessingState({ status: 'analyzing', progress: 0 });
+
+    if (detectionMode === 'gemini' && isGeminiAvailable()) {
+      try {
+        const result = await analyzeSpriteSheet(imageUrl);
+        applyDetection(result);
+        setDetectionInfo({ mode: 'gemini' });
+        setProcessingState({ status: 'idle', progress: 0 });
+        return;
+      } catch (error) {
+        console.error("Gemini detection failed, falling back to local detection", error);
+      }
+    }
+
+    // Local detection: selected explicitly, or as the fallback when Gemini is unavailable/failed
     try {
-      const result = await analyzeSpriteSheet(imageUrl);
-      setConfig(prev => ({
-        ...prev,
-        rows: result.rows ?? prev.rows,
-        cols: result.cols ?? prev.cols,
-        totalFrames: result.totalFrames ?? ((result.rows || prev.rows) * (result.cols || prev.cols))
-      }));
+      const result = await detectGridLocally(imageUrl, config.readOrder);
+      applyDetection(result);
+      setDetectionInfo({ mode: 'local', confidence: result.confidence, fallback: detectionMode === 'gemini' });
       setProcessingState({ status: 'idle', progress: 0 });
     } catch (error) {
       console.error("Detection failed", error);
-      setProcessingState({ status: 'idle', progress: 0, error: 'AI 识别失败，请手动设置。' });
+      setProcessingState({ status: 'idle', progress: 0, error: '自动识别失败，请手动设置。' });
     }
   };
 
-  const handleExport = async () => {
+  // Each job is one exported animation: the whole sequence, or one clip
+  const runExport = async (jobs: { config: SpriteConfig; baseName: string }[]) => {
     if (!imageUrl) return;
     setProcessingState({ status: 'rendering', progress: 0 });
 
@@ -125,28 +393,28 @@ const App: React.FC = () => {
       img.src = imageUrl;
       await img.decode();
 
-      const blob = await generateGif(img, config, dimensions, (pct) => {
-        setProcessingState(prev => ({ ...prev, progress: pct }));
-      });
-
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `sprite-motion-${Date.now()}.gif`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      for (let i = 0; i < jobs.length; i++) {
+        const files = await EXPORT_FORMATS[exportFormat].build(img, jobs[i].config, dimensions, exportOptions, jobs[i].baseName, (pct, phase) => {
+          setProcessingState(prev => ({ ...prev, progress: pct, phase }));
+        });
+        files.forEach(downloadFile);
+      }
 
       setProcessingState({ status: 'completed', progress: 100 });
       setTimeout(() => setProcessingState({ status: 'idle', progress: 0 }), 2000);
 
     } catch (e: any) {
       console.error(e);
-      setProcessingState({ status: 'idle', progress: 0, error: e.message || '生成 GIF 失败。' });
+      setProcessingState({ status: 'idle', progress: 0, error: e.message || `生成 ${EXPORT_FORMATS[exportFormat].label} 失败。` });
     }
   };
 
+  const handleExport = () => runExport([{ config, baseName: `sprite-motion-${Date.now()}` }]);
+
+  const handleExportAllClips = () => runExport(
+    config.clips.map(clip => ({ config: applyClip(config, clip), baseName: clipFileName(clip.name) }))
+  );
+
   const updateConfig = (key: keyof SpriteConfig, value: any) => {
     setConfig(prev => {
        const next = { ...prev, [key]: value };
@@ -169,6 +437,42 @@ const App: React.FC = () => {
     }));
   };
 
+  const handleDurationChange = (originalIndex: number, duration: number | null) => {
+    setConfig(prev => {
+        const frameDurations = { ...prev.frameDurations };
+        if (duration === null) {
+            delete frameDurations[originalIndex];
+        } else {
+            frameDurations[originalIndex] = duration;
+        }
+        return { ...prev, frameDurations };
+    });
+  };
+
+  const handleFrameOffsetChange = (originalIndex: number, offset: FrameOffset) => {
+    setConfig(prev => {
+        const frameOffsets = { ...prev.frameOffsets };
+        if (offset.dx === 0 && offset.dy === 0) {
+            delete frameOffsets[originalIndex];
+        } else {
+            frameOffsets[originalIndex] = offset;
+        }
+        return { ...prev, frameOffsets };
+    });
+  };
+
+  const handleFramePivotChange = (originalIndex: number, pivot: PivotPoint | null) => {
+    setConfig(prev => {
+        const framePivots = { ...prev.framePivots };
+        if (pivot === null) {
+            delete framePivots[originalIndex];
+        } else {
+            framePivots[originalIndex] = pivot;
+        }
+        return { ...prev, framePivots };
+    });
+  };
+
   const handleToggleFrame = (index: number) => {
     setConfig(prev => {
         const isExcluded = prev.excludedFrames.includes(index);
@@ -182,6 +486,8 @@ const App: React.FC = () => {
     });
   };
 
+  const maxFrames = config.layoutMode === 'free' ? Math.max(1, config.freeFrames.length) : config.rows * config.cols;
+
   return (
     <div className="min-h-screen bg-slate-950 text-slate-200 flex flex-col font-sans">
       <header className="bg-slate-900 border-b border-slate-800 p-4 sticky top-0 z-10 shadow-md">
@@ -225,8 +531,32 @@ const App: React.FC = () => {
                     {processingState.status === 'analyzing' ? <RefreshCw className="animate-spin" size={16} /> : <Sparkles size={16} />}
                     <span>自动识别</span>
                 </button>
+
+                <div className="flex bg-slate-950 rounded p-1 space-x-1 border border-slate-800" title="AI 识别需要 Gemini API Key；本地识别通过扫描分隔线与内容周期离线完成">
+                    <button
+                        onClick={() => setDetectionMode('gemini')}
+                        className={`px-2 py-1 rounded text-xs transition-colors ${detectionMode === 'gemini' ? 'bg-indigo-600 text-white shadow' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+                    >
+                        AI
+                    </button>
+                    <button
+                        onClick={() => setDetectionMode('local')}
+                        className={`px-2 py-1 rounded text-xs transition-colors ${detectionMode === 'local' ? 'bg-indigo-600 text-white shadow' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+                    >
+                        本地
+                    </button>
+                </div>
+            </div>
+            <div className="flex flex-col items-end">
+                {imageUrl && <div className="text-xs font-mono text-slate-500">{dimensions.width}x{dimensions.height}px</div>}
+                {detectionInfo && (
+                    <div className="text-[10px] text-slate-500">
+                        {detectionInfo.mode === 'gemini'
+                            ? 'AI 识别'
+                            : `本地识别 · 置信度 ${Math.round((detectionInfo.confidence ?? 0) * 100)}%${detectionInfo.fallback ? '（Gemini 不可用，已自动切换）' : ''}`}
+                    </div>
+                )}
             </div>
-            {imageUrl && <div className="text-xs font-mono text-slate-500">{dimensions.width}x{dimensions.height}px</div>}
           </div>
 
           <div className="flex-1 bg-slate-900/50 rounded-xl border border-slate-800 p-1 flex flex-col h-[65vh] min-h-[500px]">
@@ -235,8 +565,24 @@ const App: React.FC = () => {
                 config={config} 
                 onDimensionsLoaded={setDimensions}
                 onToggleFrame={handleToggleFrame} 
+                onPickColor={handlePickColor}
+                layout={previewLayout}
             />
           </div>
+
+          <SequenceEditor
+             imageUrl={imageUrl}
+             config={config}
+             dimensions={dimensions}
+             onSequenceChange={(sequence) => updateConfig('sequence', sequence)}
+          />
+
+          <FrameTimeline
+             imageUrl={imageUrl}
+             config={config}
+             dimensions={dimensions}
+             onDurationChange={handleDurationChange}
+          />
           
           {processingState.error && (
             <div className="bg-red-900/20 border border-red-800 text-red-200 text-sm p-3 rounded-md">
@@ -251,7 +597,7 @@ const App: React.FC = () => {
                 <span className="w-2 h-2 bg-green-500 rounded-full mr-2 animate-pulse"></span>
                 实时预览
             </h2>
-            <PreviewPlayer imageUrl={imageUrl} config={config} dimensions={dimensions} />
+            <PreviewPlayer imageUrl={imageUrl} config={config} dimensions={dimensions} onFrameOffsetChange={handleFrameOffsetChange} onFramePivotChange={handleFramePivotChange} onPickColor={handlePickColor} palette={exportOptions.palette} exportFormat={exportFormat} onLayoutChange={setPreviewLayout} />
           </div>
 
           <div className="bg-slate-900 rounded-xl border border-slate-800 p-6 shadow-xl space-y-6">
@@ -260,10 +606,50 @@ const App: React.FC = () => {
                 <h2 className="text-lg font-semibold text-white">参数设置</h2>
             </div>
 
-            <div className="grid grid-cols-2 gap-4">
-                <NumberInput label="行数" value={config.rows} onChange={(val) => updateConfig('rows', val)} />
-                <NumberInput label="列数" value={config.cols} onChange={(val) => updateConfig('cols', val)} />
+            <div className="bg-slate-950 p-2 rounded-lg border border-slate-800 flex items-center justify-between">
+                 <span className="text-xs font-bold text-slate-500 uppercase px-2">排布方式</span>
+                 <div className="flex bg-slate-900 rounded p-1 space-x-1">
+                    <button
+                        onClick={() => handleLayoutModeChange('grid')}
+                        className={`flex items-center space-x-1 px-3 py-1.5 rounded text-xs transition-colors ${config.layoutMode === 'grid' ? 'bg-indigo-600 text-white shadow' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+                    >
+                        <Grid3x3 size={14} />
+                        <span>网格</span>
+                    </button>
+                    <button
+                         onClick={() => handleLayoutModeChange('free')}
+                         className={`flex items-center space-x-1 px-3 py-1.5 rounded text-xs transition-colors ${config.layoutMode === 'free' ? 'bg-indigo-600 text-white shadow' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+                    >
+                        <Shapes size={14} />
+                        <span>自由排布</span>
+                    </button>
+                 </div>
             </div>
+
+            {config.layoutMode === 'grid' ? (
+                <div className="grid grid-cols-2 gap-4">
+                    <NumberInput label="行数" value={config.rows} onChange={(val) => updateConfig('rows', val)} />
+                    <NumberInput label="列数" value={config.cols} onChange={(val) => updateConfig('cols', val)} />
+                </div>
+            ) : (
+                <div className="bg-slate-950 p-3 rounded-lg border border-slate-800 space-y-3">
+                    <div className="text-xs text-slate-500">
+                        按背景分离出每个独立的精灵（连通区域），适用于大小不一、没有统一网格的精灵图。
+                    </div>
+                    <div className="grid grid-cols-2 gap-4 items-end">
+                        <NumberInput label="合并距离 (px)" value={mergeDistance} min={0} max={64} onChange={setMergeDistance} />
+                        <button
+                            onClick={() => imageUrl && handleDetectSprites(imageUrl, config)}
+                            disabled={!imageUrl || processingState.status === 'analyzing'}
+                            className={`flex items-center justify-center space-x-2 h-[42px] rounded-md text-sm font-medium transition-all border border-slate-700 ${!imageUrl ? 'opacity-50 cursor-not-allowed' : 'hover:bg-slate-800 text-indigo-300'}`}
+                        >
+                            {processingState.status === 'analyzing' ? <RefreshCw className="animate-spin" size={16} /> : <Sparkles size={16} />}
+                            <span>检测精灵</span>
+                        </button>
+                    </div>
+                    <div className="text-xs font-mono text-slate-400">已检测到 {config.freeFrames.length} 个精灵</div>
+                </div>
+            )}
             
             <div className="bg-slate-950 p-2 rounded-lg border border-slate-800 flex items-center justify-between">
                  <span className="text-xs font-bold text-slate-500 uppercase px-2">读取顺序</span>
@@ -288,15 +674,35 @@ const App: React.FC = () => {
             <div className="space-y-2">
                  <div className="flex justify-between">
                     <label className="text-xs uppercase font-bold text-slate-500">序列长度</label>
-                    <span className="text-xs text-slate-500">最大值: {config.rows * config.cols}</span>
+                    <span className="text-xs text-slate-500">最大值: {maxFrames}</span>
                  </div>
-                 <input type="range" min="1" max={config.rows * config.cols} value={config.totalFrames} onChange={(e) => updateConfig('totalFrames', parseInt(e.target.value))} className="w-full accent-indigo-500 h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer" />
+                 <input type="range" min="1" max={maxFrames} value={config.totalFrames} onChange={(e) => updateConfig('totalFrames', parseInt(e.target.value))} className="w-full accent-indigo-500 h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer" />
                  <div className="flex justify-between text-xs font-mono text-slate-400 pt-1">
                     <span>截取前 {config.totalFrames} 帧</span>
-                    <span className="text-indigo-300">实际生成: {config.totalFrames - config.excludedFrames.filter(i => i < config.totalFrames).length} 帧</span>
+                    <span className="text-indigo-300">实际生成: {config.sequence.length > 0 ? config.sequence.length : config.totalFrames - config.excludedFrames.filter(i => i < config.totalFrames).length} 帧</span>
                  </div>
             </div>
 
+            {config.layoutMode === 'grid' && (
+            <div className="border-t border-slate-800 pt-4">
+               <div className="flex items-center justify-between mb-3 text-slate-400">
+                   <div className="flex items-center space-x-2">
+                      <Grid3x3 size={16} />
+                      <h3 className="text-xs font-bold uppercase">网格边距与间距</h3>
+                   </div>
+               </div>
+               <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+                  <NumberInput label="外边距 X" value={config.offsetX} min={0} onChange={(val) => updateConfig('offsetX', val)} />
+                  <NumberInput label="外边距 Y" value={config.offsetY} min={0} onChange={(val) => updateConfig('offsetY', val)} />
+                  <NumberInput label="单元间距 X" value={config.spacingX} min={0} onChange={(val) => updateConfig('spacingX', val)} />
+                  <NumberInput label="单元间距 Y" value={config.spacingY} min={0} onChange={(val) => updateConfig('spacingY', val)} />
+                  <NumberInput label="单元宽度 (0=自动)" value={config.cellWidth ?? 0} min={0} onChange={(val) => updateConfig('cellWidth', val > 0 ? val : null)} />
+                  <NumberInput label="单元高度 (0=自动)" value={config.cellHeight ?? 0} min={0} onChange={(val) => updateConfig('cellHeight', val > 0 ? val : null)} />
+               </div>
+            </div>
+            )}
+
+            {config.layoutMode === 'grid' && (
             <div className="border-t border-slate-800 pt-4">
                <div className="flex items-center justify-between mb-3 text-slate-400">
                    <div className="flex items-center space-x-2">
@@ -311,6 +717,7 @@ const App: React.FC = () => {
                   <NumberInput label="右边距" value={config.crop.right} min={0} onChange={(val) => updateCrop('right', val)} />
                </div>
             </div>
+            )}
 
             {/* Auto Align Section */}
             <div className="border-t border-slate-800 pt-4">
@@ -332,7 +739,7 @@ const App: React.FC = () => {
                         <div className="text-xs text-slate-500 mb-2">
                             系统将自动扫描每一帧的主体内容，并重新构建画布以保持动画稳定。
                         </div>
-                        <div className="grid grid-cols-2 gap-2">
+                        <div className="grid grid-cols-3 gap-2">
                             <button
                                 onClick={() => updateConfig('alignMode', 'center')}
                                 className={`flex flex-col items-center justify-center p-2 rounded border transition-all ${config.alignMode === 'center' ? 'bg-indigo-900/50 border-indigo-500 text-indigo-200' : 'bg-slate-900 border-slate-700 text-slate-500 hover:bg-slate-800'}`}
@@ -347,11 +754,135 @@ const App: React.FC = () => {
                                 <ArrowDownToLine size={18} className="mb-1"/>
                                 <span className="text-[10px] font-bold">底部对齐 (防抖动)</span>
                             </button>
+                            <button
+                                onClick={() => updateConfig('alignMode', 'stabilize')}
+                                className={`flex flex-col items-center justify-center p-2 rounded border transition-all ${config.alignMode === 'stabilize' ? 'bg-indigo-900/50 border-indigo-500 text-indigo-200' : 'bg-slate-900 border-slate-700 text-slate-500 hover:bg-slate-800'}`}
+                            >
+                                <Crosshair size={18} className="mb-1"/>
+                                <span className="text-[10px] font-bold">运动稳定</span>
+                            </button>
+                            <button
+                                onClick={() => updateConfig('alignMode', 'pivot')}
+                                className={`flex flex-col items-center justify-center p-2 rounded border transition-all ${config.alignMode === 'pivot' ? 'bg-indigo-900/50 border-indigo-500 text-indigo-200' : 'bg-slate-900 border-slate-700 text-slate-500 hover:bg-slate-800'}`}
+                            >
+                                <Anchor size={18} className="mb-1"/>
+                                <span className="text-[10px] font-bold">锚点对齐</span>
+                            </button>
+                            <button
+                                onClick={() => updateConfig('alignMode', 'union')}
+                                className={`flex flex-col items-center justify-center p-2 rounded border transition-all ${config.alignMode === 'union' ? 'bg-indigo-900/50 border-indigo-500 text-indigo-200' : 'bg-slate-900 border-slate-700 text-slate-500 hover:bg-slate-800'}`}
+                            >
+                                <BoxSelect size={18} className="mb-1"/>
+                                <span className="text-[10px] font-bold">裁剪到内容 (保留位移)</span>
+                            </button>
                         </div>
+
+                        {config.alignMode === 'union' && (
+                            <div className="space-y-2 pt-2">
+                                <div className="text-xs text-slate-500">
+                                    取所有有效帧内容的并集包围盒，每帧按同一矩形裁剪，跳跃、突进等位移得以保留。裁剪范围以虚线显示在精灵图上。
+                                </div>
+                                <NumberInput label="留白 (px)" value={config.trimPadding} min={0} max={256} onChange={(val) => updateConfig('trimPadding', Math.round(val))} />
+                            </div>
+                        )}
+
+                        {config.alignMode === 'stabilize' && (
+                            <div className="space-y-2 pt-2">
+                                <div className="text-xs text-slate-500">
+                                    逐帧比对像素估算主体位移并写入单帧偏移，可在预览中暂停后拖动或用方向键微调。
+                                </div>
+                                <div className="grid grid-cols-2 gap-4 items-end">
+                                    <NumberInput label="搜索半径 (px)" value={stabilizeRadius} min={1} max={64} onChange={setStabilizeRadius} />
+                                    <button
+                                        onClick={handleStabilize}
+                                        disabled={!imageUrl || processingState.status === 'analyzing'}
+                                        className={`flex items-center justify-center space-x-2 h-[42px] rounded-md text-sm font-medium transition-all border border-slate-700 ${!imageUrl ? 'opacity-50 cursor-not-allowed' : 'hover:bg-slate-800 text-indigo-300'}`}
+                                    >
+                                        {processingState.status === 'analyzing' ? <RefreshCw className="animate-spin" size={16} /> : <Crosshair size={16} />}
+                                        <span>计算偏移</span>
+                                    </button>
+                                </div>
+                                <div className="text-xs font-mono text-slate-400">已设置偏移的帧: {Object.keys(config.frameOffsets).length}</div>
+                            </div>
+                        )}
                     </div>
                 )}
             </div>
 
+            {/* Pivot Section */}
+            <div className="border-t border-slate-800 pt-4 space-y-3">
+                <div className="flex items-center space-x-2 text-slate-400">
+                    <Anchor size={16} />
+                    <h3 className="text-xs font-bold uppercase">锚点 (Pivot)</h3>
+                </div>
+                <div className="bg-slate-950 p-3 rounded-lg border border-slate-800 space-y-3">
+                    <div className="flex items-center justify-between">
+                        <span className="text-xs text-slate-400">默认锚点</span>
+                        <select
+                            value={config.pivotPreset}
+                            onChange={(e) => updateConfig('pivotPreset', e.target.value as PivotPreset)}
+                            className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-white outline-none"
+                        >
+                            <option value="bottom-center">主体底部中心（脚底）</option>
+                            <option value="center">主体中心</option>
+                            <option value="fixed">固定坐标</option>
+                        </select>
+                    </div>
+                    {config.pivotPreset === 'fixed' && (
+                        <div className="grid grid-cols-2 gap-4">
+                            <NumberInput label="X (帧内 px)" value={config.pivotPoint.x} min={0} onChange={(x) => updateConfig('pivotPoint', { ...config.pivotPoint, x })} />
+                            <NumberInput label="Y (帧内 px)" value={config.pivotPoint.y} min={0} onChange={(y) => updateConfig('pivotPoint', { ...config.pivotPoint, y })} />
+                        </div>
+                    )}
+                    <div className="flex items-center justify-between text-xs">
+                        <span className="font-mono text-slate-400">单帧锚点: {Object.keys(config.framePivots).length}</span>
+                        {Object.keys(config.framePivots).length > 0 && (
+                            <button
+                                onClick={() => updateConfig('framePivots', {})}
+                                className="px-2 py-0.5 rounded border border-slate-700 text-slate-400 hover:bg-slate-800 hover:text-white transition-colors"
+                            >
+                                全部清除
+                            </button>
+                        )}
+                    </div>
+                    <div className="text-xs text-slate-500">
+                        在预览中暂停并开启锚点编辑后，点击画面即可设置当前帧的锚点。开启「锚点对齐」后各帧锚点将重合。
+                    </div>
+                    <div className="flex items-center justify-between p-2 bg-slate-900 rounded border border-slate-800">
+                        <span className="text-xs text-slate-300">GIF / APNG / WebP 附带 .pivot.json</span>
+                        <label className="relative inline-flex items-center cursor-pointer">
+                            <input type="checkbox" className="sr-only peer" checked={exportOptions.pivot.sidecar} onChange={(e) => { const sidecar = e.target.checked; setExportOptions(prev => ({ ...prev, pivot: { sidecar } })); }} />
+                            <div className="w-7 h-4 bg-slate-700 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-3 after:w-3 after:transition-all peer-checked:bg-indigo-600"></div>
+                        </label>
+                    </div>
+                </div>
+            </div>
+
+            <div className="pt-4 border-t border-slate-800 space-y-3">
+                <div className="bg-slate-950 p-2 rounded-lg border border-slate-800 flex items-center justify-between">
+                     <span className="text-xs font-bold text-slate-500 uppercase px-2">播放模式</span>
+                     <div className="flex bg-slate-900 rounded p-1 space-x-1">
+                        {([
+                            { mode: 'forward', label: '正序', icon: <ArrowRight size={14} /> },
+                            { mode: 'reverse', label: '倒序', icon: <ArrowLeft size={14} /> },
+                            { mode: 'pingpong', label: '往返', icon: <ArrowLeftRight size={14} /> },
+                        ] as { mode: PlaybackMode; label: string; icon: React.ReactNode }[]).map(({ mode, label, icon }) => (
+                            <button
+                                key={mode}
+                                onClick={() => updateConfig('playbackMode', mode)}
+                                className={`flex items-center space-x-1 px-3 py-1.5 rounded text-xs transition-colors ${config.playbackMode === mode ? 'bg-indigo-600 text-white shadow' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+                            >
+                                {icon}
+                                <span>{label}</span>
+                            </button>
+                        ))}
+                     </div>
+                </div>
+                <NumberInput label="播放次数 (0=无限循环)" value={config.loopCount} min={0} max={65535} onChange={(val) => updateConfig('loopCount', Math.round(val))} />
+            </div>
+
+            <ClipEditor config={config} onClipsChange={(clips) => updateConfig('clips', clips)} />
+
             <div className="grid grid-cols-2 gap-4 pt-4 border-t border-slate-800">
                  <NumberInput label="帧率 (FPS)" value={config.fps} min={1} max={60} onChange={(val) => updateConfig('fps', val)} />
                 <div className="space-y-2">
@@ -392,7 +923,10 @@ const App: React.FC = () => {
                         <h3 className="text-xs font-bold uppercase">背景透明化</h3>
                     </div>
                     <label className="relative inline-flex items-center cursor-pointer">
-                        <input type="checkbox" className="sr-only peer" checked={config.transparent !== null} onChange={(e) => updateConfig('transparent', e.target.checked ? '#ffffff' : null)} />
+                        <input type="checkbox" className="sr-only peer" checked={config.transparent !== null} onChange={(e) => {
+                            updateConfig('transparent', e.target.checked ? '#ffffff' : null);
+                            if (e.target.checked) handleDetectBackground(true);
+                        }} />
                         <div className="w-9 h-5 bg-slate-700 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-4 after:w-4 after:transition-all peer-checked:bg-indigo-600"></div>
                     </label>
                 </div>
@@ -405,6 +939,15 @@ const App: React.FC = () => {
                                  <div className="text-sm font-medium text-white">透明色值</div>
                                  <div className="text-xs text-slate-500 font-mono uppercase">{config.transparent}</div>
                              </div>
+                             <button
+                                onClick={() => handleDetectBackground(false)}
+                                disabled={!imageUrl || processingState.status === 'analyzing'}
+                                title="从单元格边缘和角落采样背景色"
+                                className={`flex items-center space-x-1 px-2 py-1.5 rounded text-xs border border-slate-700 transition-colors ${!imageUrl ? 'opacity-50 cursor-not-allowed' : 'text-indigo-300 hover:bg-slate-800'}`}
+                             >
+                                {processingState.status === 'analyzing' ? <RefreshCw className="animate-spin" size={12} /> : <Sparkles size={12} />}
+                                <span>自动检测</span>
+                             </button>
                         </div>
 
                         <div className="space-y-1">
@@ -415,6 +958,75 @@ const App: React.FC = () => {
                             <input type="range" min="0" max="50" step="1" value={config.tolerance} onChange={(e) => updateConfig('tolerance', parseInt(e.target.value))} className="w-full accent-indigo-500 h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer" />
                         </div>
 
+                        <div className="space-y-1">
+                            <div className="flex items-center justify-between text-xs">
+                                <span className="text-slate-400">颜色距离</span>
+                                <select
+                                    value={config.colorMetric}
+                                    onChange={(e) => updateConfig('colorMetric', e.target.value as ColorMetric)}
+                                    className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-white outline-none focus:ring-2 focus:ring-indigo-500"
+                                >
+                                    {COLOR_METRICS.map(({ metric, label }) => (
+                                        <option key={metric} value={metric}>{label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div className="text-xs text-slate-500">
+                                {COLOR_METRICS.find(({ metric }) => metric === config.colorMetric)?.hint}
+                            </div>
+                        </div>
+
+                        <div className="space-y-2">
+                            <div className="flex items-center justify-between text-xs">
+                                <span className="text-slate-400">附加背景色 (如棋盘格的第二种颜色)</span>
+                                <button
+                                    onClick={() => updateConfig('extraKeyColors', [...config.extraKeyColors, { color: '#cccccc', tolerance: config.tolerance }])}
+                                    className="flex items-center space-x-1 text-indigo-300 hover:text-white transition-colors"
+                                >
+                                    <Plus size={12} />
+                                    <span>添加</span>
+                                </button>
+                            </div>
+                            {config.extraKeyColors.map((keyColor, index) => (
+                                <div key={index} className="flex items-center space-x-2">
+                                    <input type="color" value={keyColor.color} onChange={(e) => updateExtraKeyColor(index, { color: e.target.value })} className="h-6 w-8 cursor-pointer rounded bg-transparent border-0 p-0" />
+                                    <input type="range" min="0" max="50" step="1" value={keyColor.tolerance} onChange={(e) => updateExtraKeyColor(index, { tolerance: parseInt(e.target.value) })} className="flex-1 accent-indigo-500 h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer" />
+                                    <span className="w-8 text-right text-xs font-mono text-indigo-300">{keyColor.tolerance}%</span>
+                                    <button
+                                        onClick={() => updateConfig('extraKeyColors', config.extraKeyColors.filter((_, i) => i !== index))}
+                                        className="text-slate-500 hover:text-red-400 transition-colors"
+                                        title="移除"
+                                    >
+                                        <Trash2 size={12} />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+
+                        <div className="space-y-1">
+                            <div className="flex justify-between text-xs">
+                                <span className="text-slate-400">边缘柔化 (半透明过渡)</span>
+                                <span className="font-mono text-indigo-300">{config.edgeSoftness}%</span>
+                            </div>
+                            <input type="range" min="0" max="50" step="1" value={config.edgeSoftness} onChange={(e) => updateConfig('edgeSoftness', parseInt(e.target.value))} className="w-full accent-indigo-500 h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer" />
+                        </div>
+
+                        <div className="space-y-1">
+                            <div className="flex justify-between text-xs">
+                                <span className="text-slate-400">去除杂边 (Defringe)</span>
+                                <span className="font-mono text-indigo-300">{config.defringe}px</span>
+                            </div>
+                            <input type="range" min="0" max="8" step="1" value={config.defringe} onChange={(e) => updateConfig('defringe', parseInt(e.target.value))} className="w-full accent-indigo-500 h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer" />
+                        </div>
+
+                        <div className="flex items-center justify-between p-2 bg-slate-900 rounded border border-slate-800">
+                             <span className="text-xs text-slate-300">去除边缘背景色溢出 (Despill)</span>
+                             <label className="relative inline-flex items-center cursor-pointer">
+                                <input type="checkbox" className="sr-only peer" checked={config.despill} onChange={(e) => updateConfig('despill', e.target.checked)} />
+                                <div className="w-7 h-4 bg-slate-700 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-3 after:w-3 after:transition-all peer-checked:bg-green-600"></div>
+                            </label>
+                        </div>
+
                         <div className="flex items-center justify-between p-2 bg-slate-900 rounded border border-slate-800">
                              <div className="flex items-center space-x-2 text-xs text-slate-300">
                                 {config.useFloodFill ? <ShieldCheck size={14} className="text-green-400"/> : <ShieldAlert size={14} className="text-yellow-400"/>}
@@ -425,15 +1037,176 @@ const App: React.FC = () => {
                                 <div className="w-7 h-4 bg-slate-700 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-3 after:w-3 after:transition-all peer-checked:bg-green-600"></div>
                             </label>
                         </div>
+
+                        {config.useFloodFill && config.floodSeeds.length > 0 && (
+                            <div className="flex items-center justify-between text-xs text-slate-400">
+                                <span>填充种子点: <span className="font-mono text-indigo-300">{config.floodSeeds.length}</span></span>
+                                <button onClick={() => updateConfig('floodSeeds', [])} className="text-slate-500 hover:text-red-400 transition-colors">清除</button>
+                            </div>
+                        )}
+
+                        <div className="text-xs text-slate-500">
+                            用图片右上角或预览控制栏中的吸管直接取色；Shift+点击添加背景色，点在已去除的颜色上则添加填充种子点（用于被主体包围的背景）。
+                        </div>
                     </div>
                 )}
             </div>
 
-            <div className="pt-6">
+            {exportFormat === 'gif' && (
+                <div className="bg-slate-950 p-3 rounded-lg border border-slate-800 space-y-3">
+                    <div className="flex items-center justify-between">
+                        <span className="text-xs font-bold text-slate-500 uppercase">GIF 调色板</span>
+                        <div className="flex bg-slate-900 rounded p-1 space-x-1">
+                            {([
+                                { mode: 'auto', label: '逐帧' },
+                                { mode: 'global', label: '全局' },
+                                { mode: 'custom', label: '自定义' },
+                            ] as { mode: PaletteMode; label: string }[]).map(({ mode, label }) => (
+                                <button
+                                    key={mode}
+                                    onClick={() => setExportOptions(prev => ({ ...prev, palette: { ...prev.palette, mode } }))}
+                                    className={`px-3 py-1.5 rounded text-xs transition-colors ${exportOptions.palette.mode === mode ? 'bg-indigo-600 text-white shadow' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <NumberInput label="最大颜色数" value={exportOptions.palette.maxColors} min={2} max={256} onChange={(val) => { const maxColors = Math.round(val); setExportOptions(prev => ({ ...prev, palette: { ...prev.palette, maxColors } })); }} />
+                        <div className="space-y-2">
+                            <label className="text-xs uppercase font-bold text-slate-500">抖动</label>
+                            <select
+                                value={exportOptions.palette.dither}
+                                onChange={(e) => { const dither = e.target.value as DitherMethod; setExportOptions(prev => ({ ...prev, palette: { ...prev.palette, dither } })); }}
+                                className="w-full bg-slate-950 border border-slate-700 rounded-md px-3 py-2 text-white focus:ring-2 focus:ring-indigo-500 outline-none h-[42px]"
+                            >
+                                <option value="none">无</option>
+                                <option value="floyd-steinberg">Floyd–Steinberg</option>
+                                <option value="bayer">Bayer 有序抖动</option>
+                            </select>
+                        </div>
+                    </div>
+                    {exportOptions.palette.mode === 'custom' && (
+                        <div className="space-y-2">
+                            <label className="flex items-center justify-center space-x-2 cursor-pointer p-2 rounded border border-slate-700 text-xs text-slate-300 hover:bg-slate-800 hover:text-white transition-colors">
+                                <Upload size={14} />
+                                <span>导入调色板 (.gpl / .pal / .hex / PNG 色板)</span>
+                                <input type="file" accept=".gpl,.pal,.hex,.txt,.png" onChange={handlePaletteFileChange} className="hidden" />
+                            </label>
+                            {exportOptions.palette.colors.length > 0 ? (
+                                <div className="flex flex-wrap gap-0.5">
+                                    {exportOptions.palette.colors.map(color => (
+                                        <div key={color} className="w-3 h-3 rounded-sm border border-slate-700" style={{ backgroundColor: color }} title={color} />
+                                    ))}
+                                </div>
+                            ) : (
+                                <div className="text-xs text-red-400">尚未导入调色板</div>
+                            )}
+                        </div>
+                    )}
+                    {config.transparent && (
+                        <div className="space-y-1">
+                            <div className="flex justify-between text-xs">
+                                <span className="text-slate-400">透明阈值 (低于此不透明度的像素变为透明)</span>
+                                <span className="font-mono text-indigo-300">{exportOptions.palette.alphaThreshold}</span>
+                            </div>
+                            <input type="range" min="1" max="255" step="1" value={exportOptions.palette.alphaThreshold} onChange={(e) => { const alphaThreshold = parseInt(e.target.value); setExportOptions(prev => ({ ...prev, palette: { ...prev.palette, alphaThreshold } })); }} className="w-full accent-indigo-500 h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer" />
+                        </div>
+                    )}
+                    <div className="text-xs text-slate-500">
+                        {exportOptions.palette.mode === 'auto' && '每帧单独生成调色板，颜色最准确，但帧间可能闪烁。'}
+                        {exportOptions.palette.mode === 'global' && '所有帧共用一个调色板，避免帧间颜色闪烁。'}
+                        {exportOptions.palette.mode === 'custom' && `使用导入的 ${exportOptions.palette.colors.length} 色调色板，超出颜色上限时保留最常用的颜色。`}
+                        {' '}开启透明时占用 1 个颜色位。可在预览中开启量化预览查看效果。
+                    </div>
+                </div>
+            )}
+
+            {exportFormat === 'webp' && (
+                <div className="bg-slate-950 p-3 rounded-lg border border-slate-800 space-y-3">
+                    <div className="flex items-center justify-between">
+                        <span className="text-xs font-bold text-slate-500 uppercase">WebP 编码</span>
+                        <div className="flex bg-slate-900 rounded p-1 space-x-1">
+                            <button
+                                onClick={() => setExportOptions(prev => ({ ...prev, webp: { ...prev.webp, lossless: true } }))}
+                                className={`px-3 py-1.5 rounded text-xs transition-colors ${exportOptions.webp.lossless ? 'bg-indigo-600 text-white shadow' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+                            >
+                                无损
+                            </button>
+                            <button
+                                onClick={() => setExportOptions(prev => ({ ...prev, webp: { ...prev.webp, lossless: false } }))}
+                                className={`px-3 py-1.5 rounded text-xs transition-colors ${!exportOptions.webp.lossless ? 'bg-indigo-600 text-white shadow' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+                            >
+                                有损
+                            </button>
+                        </div>
+                    </div>
+                    {!exportOptions.webp.lossless && (
+                        <div className="space-y-1">
+                            <div className="flex justify-between text-xs">
+                                <span className="text-slate-400">压缩质量</span>
+                                <span className="font-mono text-indigo-300">{exportOptions.webp.quality}</span>
+                            </div>
+                            <input type="range" min="0" max="100" step="1" value={exportOptions.webp.quality} onChange={(e) => { const quality = parseInt(e.target.value); setExportOptions(prev => ({ ...prev, webp: { ...prev.webp, quality } })); }} className="w-full accent-indigo-500 h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer" />
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {exportFormat === 'atlas' && (
+                <div className="bg-slate-950 p-3 rounded-lg border border-slate-800 space-y-3">
+                    <div className="text-xs text-slate-500">
+                        按内容裁切每一帧并紧密排列到一张 PNG 图集中，同时导出 JSON 描述文件（可直接用于 Phaser / Pixi）。
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <label className="text-xs uppercase font-bold text-slate-500">JSON 格式</label>
+                            <select
+                                value={exportOptions.atlas.format}
+                                onChange={(e) => { const format = e.target.value as AtlasFormat; setExportOptions(prev => ({ ...prev, atlas: { ...prev.atlas, format } })); }}
+                                className="w-full bg-slate-900 border border-slate-700 rounded-md px-3 py-2 text-white focus:ring-2 focus:ring-indigo-500 outline-none h-[42px]"
+                            >
+                                <option value="texturepacker">TexturePacker (Hash)</option>
+                                <option value="aseprite">Aseprite (Array)</option>
+                            </select>
+                        </div>
+                        <NumberInput label="帧间距 (px)" value={exportOptions.atlas.padding} min={0} max={64} onChange={(padding) => setExportOptions(prev => ({ ...prev, atlas: { ...prev.atlas, padding } }))} />
+                    </div>
+                </div>
+            )}
+
+            {exportFormat === 'sequence' && (
+                <div className="bg-slate-950 p-3 rounded-lg border border-slate-800 space-y-2">
+                    <div className="text-xs text-slate-500">
+                        将处理后的每一帧导出为 frame_000.png… 并打包为 ZIP。
+                    </div>
+                    <div className="flex items-center justify-between p-2 bg-slate-900 rounded border border-slate-800">
+                        <span className="text-xs text-slate-300">附带 manifest.json（原始帧序号与行列）</span>
+                        <label className="relative inline-flex items-center cursor-pointer">
+                            <input type="checkbox" className="sr-only peer" checked={exportOptions.sequence.includeManifest} onChange={(e) => { const includeManifest = e.target.checked; setExportOptions(prev => ({ ...prev, sequence: { includeManifest } })); }} />
+                            <div className="w-7 h-4 bg-slate-700 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-3 after:w-3 after:transition-all peer-checked:bg-indigo-600"></div>
+                        </label>
+                    </div>
+                </div>
+            )}
+
+            <div className="pt-6 flex items-stretch space-x-3">
+                <select
+                    value={exportFormat}
+                    onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                    disabled={processingState.status === 'rendering'}
+                    title="导出格式：GIF 仅支持 256 色与 1 位透明；APNG / WebP 保留完整 8 位透明通道"
+                    className="bg-slate-950 border border-slate-700 rounded-xl px-3 text-white font-bold focus:ring-2 focus:ring-indigo-500 outline-none"
+                >
+                    {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(key => (
+                        <option key={key} value={key}>{EXPORT_FORMATS[key].label}</option>
+                    ))}
+                </select>
                 <button 
                     onClick={handleExport}
                     disabled={!imageUrl || processingState.status === 'rendering'}
-                    className={`w-full flex items-center justify-center space-x-2 py-4 rounded-xl font-bold text-lg shadow-xl transition-all transform active:scale-95
+                    className={`flex-1 flex items-center justify-center space-x-2 py-4 rounded-xl font-bold text-lg shadow-xl transition-all transform active:scale-95
                     ${!imageUrl 
                         ? 'bg-slate-800 text-slate-600 cursor-not-allowed' 
                         : processingState.status === 'rendering'
@@ -444,17 +1217,29 @@ const App: React.FC = () => {
                     {processingState.status === 'rendering' ? (
                         <>
                             <RefreshCw className="animate-spin" />
-                            <span>正在生成 {processingState.progress}%</span>
+                            <span>正在{processingState.phase ? EXPORT_PHASE_LABELS[processingState.phase] : '生成'} {processingState.progress}%</span>
                         </>
                     ) : (
                         <>
                             <Download />
-                            <span>导出 GIF</span>
+                            <span>导出 {EXPORT_FORMATS[exportFormat].label}</span>
                         </>
                     )}
                 </button>
             </div>
 
+            {config.clips.length > 0 && (
+                <button
+                    onClick={handleExportAllClips}
+                    disabled={!imageUrl || processingState.status === 'rendering'}
+                    className={`w-full flex items-center justify-center space-x-2 py-2 rounded-xl text-sm font-medium border border-slate-700 transition-all ${!imageUrl || processingState.status === 'rendering' ? 'opacity-50 cursor-not-allowed' : 'hover:bg-slate-800 text-indigo-300'}`}
+                    title="每个片段导出为一个以片段名命名的文件"
+                >
+                    <Film size={16} />
+                    <span>导出全部片段（{config.clips.length} 个 {EXPORT_FORMATS[exportFormat].label}）</span>
+                </button>
+            )}
+
           </div>
         </div>
       </main>
@@ -0,0 +1,188 @@
+import React, { useState, useEffect } from 'react';
+import { SpriteConfig, AnimationClip, PlaybackMode } from '../types';
+import { Film, Plus, Rows3, Trash2 } from 'lucide-react';
+import { getClipColor, createClipId, parseFrameSpec, formatFrameSpec, createClipsByLine } from '../utils/clips';
+
+interface ClipEditorProps {
+  config: SpriteConfig;
+  onClipsChange: (clips: AnimationClip[]) => void;
+}
+
+interface FrameSpecInputProps {
+  frames: number[];
+  onCommit: (frames: number[]) => void;
+}
+
+// Free text ("1-8" or "1, 3, 5") that is only applied once it parses
+const FrameSpecInput: React.FC<FrameSpecInputProps> = ({ frames, onCommit }) => {
+  const [localValue, setLocalValue] = useState(formatFrameSpec(frames));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLocalValue(formatFrameSpec(frames));
+    setError(null);
+  }, [frames]);
+
+  const commit = () => {
+    try {
+      const parsed = parseFrameSpec(localValue);
+      if (parsed.length === 0) throw new Error("片段至少需要包含一帧");
+      setError(null);
+      onCommit(parsed);
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  return (
+    <input
+      value={localValue}
+      onChange={(e) => setLocalValue(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+      placeholder="如 1-8 或 1, 3, 5"
+      title={error ?? '帧序号（从 1 开始），支持范围与逗号分隔，按输入顺序播放（可重复）'}
+      className={`w-full bg-slate-900 border rounded px-2 py-1 text-xs font-mono text-white outline-none focus:ring-1 focus:ring-indigo-500 ${error ? 'border-red-500' : 'border-slate-700'}`}
+    />
+  );
+};
+
+export const ClipEditor: React.FC<ClipEditorProps> = ({ config, onClipsChange }) => {
+  const { clips } = config;
+
+  const updateClip = (id: string, changes: Partial<AnimationClip>) => {
+    onClipsChange(clips.map(clip => clip.id === id ? { ...clip, ...changes } : clip));
+  };
+
+  const addClip = () => {
+    const validFrames = Array.from({ length: config.totalFrames }, (_, i) => i)
+      .filter(i => !config.excludedFrames.includes(i));
+    onClipsChange([
+      ...clips,
+      {
+        id: createClipId(),
+        name: `clip_${clips.length + 1}`,
+        frames: validFrames.length > 0 ? validFrames : [0],
+        fps: config.fps,
+        playbackMode: config.playbackMode,
+        loopCount: config.loopCount,
+        pivot: null,
+      },
+    ]);
+  };
+
+  return (
+    <div className="border-t border-slate-800 pt-4 space-y-3">
+      <div className="flex items-center justify-between text-slate-400">
+        <div className="flex items-center space-x-2">
+          <Film size={16} />
+          <h3 className="text-xs font-bold uppercase">动画片段</h3>
+        </div>
+        <div className="flex space-x-1">
+          <button
+            onClick={() => onClipsChange(createClipsByLine(config))}
+            className="flex items-center space-x-1 px-2 py-1 rounded text-xs border border-slate-700 hover:bg-slate-800 hover:text-white transition-colors"
+            title={`按${config.readOrder === 'column-major' ? '列' : '行'}拆分为片段（替换现有片段）`}
+          >
+            <Rows3 size={12} />
+            <span>按{config.readOrder === 'column-major' ? '列' : '行'}生成</span>
+          </button>
+          <button
+            onClick={addClip}
+            className="flex items-center space-x-1 px-2 py-1 rounded text-xs border border-slate-700 hover:bg-slate-800 hover:text-white transition-colors"
+          >
+            <Plus size={12} />
+            <span>添加</span>
+          </button>
+        </div>
+      </div>
+
+      {clips.length === 0 ? (
+        <div className="text-xs text-slate-500">
+          未定义片段时，整张精灵图作为一个动画导出。可为每一行（如待机、行走、攻击）分别定义片段。
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {clips.map((clip, index) => (
+            <div key={clip.id} className="bg-slate-950 p-2 rounded-lg border border-slate-800 space-y-2" style={{ borderLeft: `3px solid ${getClipColor(index)}` }}>
+              <div className="flex items-center space-x-2">
+                <input
+                  value={clip.name}
+                  onChange={(e) => updateClip(clip.id, { name: e.target.value })}
+                  className="w-28 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-white outline-none focus:ring-1 focus:ring-indigo-500"
+                  title="片段名称（同时作为导出文件名）"
+                />
+                <div className="flex-1">
+                  <FrameSpecInput frames={clip.frames} onCommit={(frames) => updateClip(clip.id, { frames })} />
+                </div>
+                <button
+                  onClick={() => onClipsChange(clips.filter(c => c.id !== clip.id))}
+                  className="p-1 text-slate-500 hover:text-red-400 transition-colors"
+                  title="删除片段"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+              <div className="grid grid-cols-3 gap-2 text-[10px] text-slate-500">
+                <label className="flex items-center space-x-1">
+                  <span>FPS</span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={60}
+                    value={clip.fps}
+                    onChange={(e) => { const fps = Number(e.target.value); if (fps >= 1 && fps <= 60) updateClip(clip.id, { fps }); }}
+                    className="w-full bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-xs text-white outline-none"
+                  />
+                </label>
+                <select
+                  value={clip.playbackMode}
+                  onChange={(e) => updateClip(clip.id, { playbackMode: e.target.value as PlaybackMode })}
+                  className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-xs text-white outline-none"
+                >
+                  <option value="forward">正序</option>
+                  <option value="reverse">倒序</option>
+                  <option value="pingpong">往返</option>
+                </select>
+                <label className="flex items-center space-x-1" title="播放次数，0 = 无限循环">
+                  <span>次数</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={65535}
+                    value={clip.loopCount}
+                    onChange={(e) => { const loopCount = Math.round(Number(e.target.value)); if (loopCount >= 0 && loopCount <= 65535) updateClip(clip.id, { loopCount }); }}
+                    className="w-full bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-xs text-white outline-none"
+                  />
+                </label>
+              </div>
+              <div className="flex items-center space-x-2 text-[10px] text-slate-500">
+                <label className="flex items-center space-x-1 cursor-pointer" title="为整个片段指定统一锚点（帧内像素），单帧锚点仍然优先">
+                  <input
+                    type="checkbox"
+                    checked={clip.pivot !== null}
+                    onChange={(e) => updateClip(clip.id, { pivot: e.target.checked ? { ...config.pivotPoint } : null })}
+                    className="accent-indigo-500"
+                  />
+                  <span>片段锚点</span>
+                </label>
+                {clip.pivot && (['x', 'y'] as const).map(axis => (
+                  <label key={axis} className="flex items-center space-x-1">
+                    <span className="uppercase">{axis}</span>
+                    <input
+                      type="number"
+                      min={0}
+                      value={clip.pivot![axis]}
+                      onChange={(e) => { const value = Number(e.target.value); if (!isNaN(value) && value >= 0) updateClip(clip.id, { pivot: { ...clip.pivot!, [axis]: value } }); }}
+                      className="w-16 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-xs text-white outline-none"
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,29 @@
+import React from 'react';
+import { ImageDimensions, FrameRect } from '../types';
+
+interface FrameThumbnailProps {
+  imageUrl: string;
+  dimensions: ImageDimensions;
+  rect: FrameRect;
+  size: number; // Longest side of the thumbnail (px)
+}
+
+/**
+ * Shows one frame's source rect through a scaled CSS background of the sheet,
+ * so thumbnails cost no canvas work.
+ */
+export const FrameThumbnail: React.FC<FrameThumbnailProps> = ({ imageUrl, dimensions, rect, size }) => {
+  const k = size / Math.max(rect.width, rect.height);
+  return (
+    <div
+      style={{
+        width: rect.width * k,
+        height: rect.height * k,
+        backgroundImage: `url(${imageUrl})`,
+        backgroundSize: `${dimensions.width * k}px ${dimensions.height * k}px`,
+        backgroundPosition: `${-rect.x * k}px ${-rect.y * k}px`,
+        imageRendering: 'pixelated',
+      }}
+    />
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { SpriteConfig, ImageDimensions } from '../types';
+import { Clock, RotateCcw } from 'lucide-react';
+import { getFrameSources, FrameSource } from '../utils/frameLayout';
+import { getFrameDuration, toGifDelay } from '../utils/frameTiming';
+import { FrameThumbnail } from './FrameThumbnail';
+
+interface FrameTimelineProps {
+  imageUrl: string | null;
+  config: SpriteConfig;
+  dimensions: ImageDimensions;
+  onDurationChange: (originalIndex: number, duration: number | null) => void;
+}
+
+const THUMB_SIZE = 48;
+// Width of a timeline cell per millisecond of display time
+const PX_PER_MS = 0.6;
+
+interface DurationInputProps {
+  value: number;
+  isOverride: boolean;
+  onCommit: (duration: number | null) => void;
+}
+
+const DurationInput: React.FC<DurationInputProps> = ({ value, isOverride, onCommit }) => {
+  const [localValue, setLocalValue] = useState<string>(Math.round(value).toString());
+
+  useEffect(() => {
+    setLocalValue(Math.round(value).toString());
+  }, [value]);
+
+  const commit = () => {
+    // Empty input resets the frame to the global FPS
+    if (localValue.trim() === '') {
+      onCommit(null);
+      return;
+    }
+    const num = Number(localValue);
+    if (isNaN(num) || num < 20) {
+      setLocalValue(Math.round(value).toString());
+      return;
+    }
+    // Leaving the field untouched must not turn the default into an override
+    if (Math.round(num) === Math.round(value)) return;
+    onCommit(Math.round(num));
+  };
+
+  return (
+    <input
+      type="number"
+      min={20}
+      step={10}
+      value={localValue}
+      onChange={(e) => setLocalValue(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+      className={`w-full bg-slate-950 border rounded px-1 py-0.5 text-[10px] font-mono text-center outline-none focus:ring-1 focus:ring-indigo-500 ${isOverride ? 'border-amber-500 text-amber-300' : 'border-slate-700 text-slate-300'}`}
+    />
+  );
+};
+
+export const FrameTimeline: React.FC<FrameTimelineProps> = ({ imageUrl, config, dimensions, onDurationChange }) => {
+  const frameSources = useMemo<FrameSource[]>(() => {
+    if (dimensions.width === 0) return [];
+    try {
+      return getFrameSources(config, dimensions);
+    } catch {
+      return [];
+    }
+  }, [config, dimensions]);
+
+  if (!imageUrl || frameSources.length === 0) return null;
+
+  const totalDuration = frameSources.reduce((sum, s) => sum + toGifDelay(getFrameDuration(config, s.originalIndex)), 0);
+
+  return (
+    <div className="bg-slate-900 rounded-lg border border-slate-800 p-3 space-y-2">
+      <div className="flex items-center justify-between text-slate-400">
+        <div className="flex items-center space-x-2">
+          <Clock size={14} />
+          <h3 className="text-xs font-bold uppercase">帧时间轴</h3>
+        </div>
+        <span className="text-[10px] font-mono text-slate-500">
+          单帧时长 (ms) · 总时长 {(totalDuration / 1000).toFixed(2)}s
+        </span>
+      </div>
+
+      <div className="flex items-end space-x-1 overflow-x-auto pb-1">
+        {frameSources.map((source, i) => {
+          const override = config.frameDurations[source.originalIndex];
+          const duration = getFrameDuration(config, source.originalIndex);
+          const played = toGifDelay(duration);
+
+          return (
+            <div
+              key={i}
+              className="flex-shrink-0 flex flex-col items-center space-y-1"
+              style={{ width: Math.max(THUMB_SIZE, played * PX_PER_MS) }}
+              title={`帧 ${source.originalIndex + 1}：GIF 实际播放 ${played}ms`}
+            >
+              <div className="relative w-full flex justify-center bg-slate-800 rounded border border-slate-700">
+                <FrameThumbnail imageUrl={imageUrl} dimensions={dimensions} rect={source} size={THUMB_SIZE} />
+                <span className="absolute top-0 left-0 text-[9px] bg-black/50 text-white px-1 font-mono rounded-br">
+                  {i + 1}
+                </span>
+                {override !== undefined && (
+                  <button
+                    onClick={() => onDurationChange(source.originalIndex, null)}
+                    className="absolute top-0 right-0 p-0.5 bg-black/50 text-amber-300 hover:text-white rounded-bl"
+                    title="恢复为全局帧率"
+                  >
+                    <RotateCcw size={10} />
+                  </button>
+                )}
+              </div>
+              <DurationInput
+                value={duration}
+                isOverride={override !== undefined}
+                onCommit={(value) => onDurationChange(source.originalIndex, value)}
+              />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useRef, useEffect, useMemo } from 'react';
+import { SheetPoint } from '../types';
+import { RgbaBuffer } from '../utils/framePipeline';
+import { rgbToHex } from '../utils/palette';
+
+/** A color picked from the sheet with the eyedropper */
+export interface ColorPick {
+  color: string; // Hex
+  point: SheetPoint;
+  add: boolean; // Shift+click: add a background color (or flood fill seed) instead of replacing it
+}
+
+interface PixelLoupeProps {
+  image: HTMLImageElement; // The loaded sheet
+  point: SheetPoint; // Pixel under the cursor
+  left: number; // Cursor position in the parent (px)
+  top: number;
+}
+
+// Sheet pixels shown on each side of the picked one
+const LOUPE_RADIUS = 5;
+const LOUPE_CELL = 10;
+
+/**
+ * The square of sheet pixels `radius` around `point`, read from the image on demand so
+ * the eyedropper never needs the whole sheet in memory. Pixels outside the sheet are
+ * transparent.
+ */
+const readSheetPatch = (image: HTMLImageElement, { x, y }: SheetPoint, radius: number): RgbaBuffer => {
+  const size = radius * 2 + 1;
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not create canvas context");
+  ctx.drawImage(image, radius - x, radius - y);
+  return ctx.getImageData(0, 0, size, size);
+};
+
+// Hex color of the center pixel of a patch
+const getPatchColor = (patch: RgbaBuffer): string => {
+  const p = ((patch.height >> 1) * patch.width + (patch.width >> 1)) * 4;
+  return rgbToHex({ r: patch.data[p], g: patch.data[p + 1], b: patch.data[p + 2] });
+};
+
+const isInSheet = (image: HTMLImageElement, { x, y }: SheetPoint) =>
+  x >= 0 && y >= 0 && x < image.naturalWidth && y < image.naturalHeight;
+
+/**
+ * Hex color of a sheet pixel, null outside the sheet.
+ */
+export const getSheetColor = (image: HTMLImageElement, point: SheetPoint): string | null =>
+  isInSheet(image, point) ? getPatchColor(readSheetPatch(image, point, 0)) : null;
+
+/**
+ * Magnified view of the sheet pixels around the eyedropper, following the cursor.
+ */
+export const PixelLoupe: React.FC<PixelLoupeProps> = ({ image, point, left, top }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const size = (LOUPE_RADIUS * 2 + 1) * LOUPE_CELL;
+  const patch = useMemo(() => readSheetPatch(image, point, LOUPE_RADIUS), [image, point.x, point.y]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, size, size);
+    for (let y = 0; y < patch.height; y++) {
+      for (let x = 0; x < patch.width; x++) {
+        const p = (y * patch.width + x) * 4;
+        if (patch.data[p + 3] === 0) continue;
+        ctx.fillStyle = `rgba(${patch.data[p]}, ${patch.data[p + 1]}, ${patch.data[p + 2]}, ${patch.data[p + 3] / 255})`;
+        ctx.fillRect(x * LOUPE_CELL, y * LOUPE_CELL, LOUPE_CELL, LOUPE_CELL);
+      }
+    }
+    // Picked pixel
+    ctx.strokeStyle = '#ffffff';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(LOUPE_RADIUS * LOUPE_CELL, LOUPE_RADIUS * LOUPE_CELL, LOUPE_CELL, LOUPE_CELL);
+  }, [patch, size]);
+
+  const color = isInSheet(image, point) ? getPatchColor(patch) : null;
+
+  return (
+    <div
+      className="absolute z-30 pointer-events-none rounded-md border border-slate-500 bg-slate-900 shadow-xl overflow-hidden"
+      style={{ left: left + 16, top: top + 16 }}
+    >
+      <canvas ref={canvasRef} width={size} height={size} className="block bg-slate-700" />
+      <div className="flex items-center justify-between px-1.5 py-0.5 text-[10px] font-mono text-slate-300">
+        <span className="uppercase">{color ?? '—'}</span>
+        <span>{point.x}, {point.y}</span>
+      </div>
+    </div>
+  );
+};
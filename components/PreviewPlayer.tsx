@@ -1,129 +1,87 @@
 import React, { useRef, useEffect, useState, useMemo } from 'react';
-import { SpriteConfig, ImageDimensions } from '../types';
-import { Play, Pause } from 'lucide-react';
+import { SpriteConfig, ExportFormat, ImageDimensions, FrameOffset, PivotPoint, PaletteOptions, SheetPoint } from '../types';
+import { Play, Pause, SkipBack, SkipForward, Layers, Anchor, Palette, Pipette, Contrast } from 'lucide-react';
+import { getFrameSources, getFrameOffset, FrameSource } from '../utils/frameLayout';
+import { getFrameDuration, toGifDelay, applyPlaybackMode } from '../utils/frameTiming';
+import { applyClip } from '../utils/clips';
+import { FrameLayout, computeLayout } from '../utils/frameRenderer';
+import { getLocalRegion, getFrameBBoxes } from '../utils/framePipeline';
+import { createFrameCache, FrameCache, CachedFrame } from '../utils/frameCache';
+import { PixelLoupe, ColorPick, getSheetColor } from './PixelLoupe';
 
 interface PreviewPlayerProps {
   imageUrl: string | null;
   config: SpriteConfig;
   dimensions: ImageDimensions;
+  onFrameOffsetChange: (originalIndex: number, offset: FrameOffset) => void;
+  onFramePivotChange: (originalIndex: number, pivot: PivotPoint | null) => void;
+  onPickColor: (pick: ColorPick) => void;
+  palette: PaletteOptions; // GIF palette settings, for the quantized preview
+  exportFormat: ExportFormat; // GIF rounds frame delays to 1/100 s
+  onLayoutChange: (layout: FrameLayout | null) => void; // Shares the previewed layout with the sheet overlay
 }
 
-const hexToRgb = (hex: string) => {
-  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-  return result ? {
-    r: parseInt(result[1], 16),
-    g: parseInt(result[2], 16),
-    b: parseInt(result[3], 16)
-  } : null;
-};
-
-// Helper to apply transparency to ImageData (runs per frame in preview)
-const processTransparency = (
-  data: Uint8ClampedArray,
-  width: number,
-  height: number,
-  targetRGB: { r: number, g: number, b: number },
-  thresholdSq: number,
-  useFloodFill: boolean
-) => {
-  const { r: tr, g: tg, b: tb } = targetRGB;
-
-  const matches = (idx: number) => {
-    const r = data[idx];
-    const g = data[idx + 1];
-    const b = data[idx + 2];
-    // Check if within tolerance
-    const distSq = (r - tr) * (r - tr) + (g - tg) * (g - tg) + (b - tb) * (b - tb);
-    return distSq <= thresholdSq;
-  };
-
-  if (!useFloodFill) {
-    // Simple global replacement
-    for (let i = 0; i < data.length; i += 4) {
-      if (data[i + 3] > 0 && matches(i)) {
-        data[i + 3] = 0; // Set Alpha to 0
-      }
-    }
-    return;
-  }
-
-  // Flood Fill Logic (Edge-based)
-  const visited = new Uint8Array(width * height);
-  const queue: number[] = [];
-
-  const addSeed = (x: number, y: number) => {
-    const idx = y * width + x;
-    if (visited[idx]) return;
-    const pIdx = idx * 4;
-    // If pixel is valid match and not already transparent, add to queue
-    if (data[pIdx + 3] > 0 && matches(pIdx)) {
-      visited[idx] = 1;
-      queue.push(idx);
-    }
-  };
-
-  // Seed from edges
-  for (let x = 0; x < width; x++) { addSeed(x, 0); addSeed(x, height - 1); }
-  for (let y = 1; y < height - 1; y++) { addSeed(0, y); addSeed(width - 1, y); }
-
-  let head = 0;
-  while (head < queue.length) {
-    const idx = queue[head++];
-    const pIdx = idx * 4;
-    data[pIdx + 3] = 0; // Set transparent
-
-    const x = idx % width;
-    const y = Math.floor(idx / width);
-
-    const neighbors = [
-      { nx: x + 1, ny: y },
-      { nx: x - 1, ny: y },
-      { nx: x, ny: y + 1 },
-      { nx: x, ny: y - 1 }
-    ];
-
-    for (const { nx, ny } of neighbors) {
-      if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
-        const nIdx = ny * width + nx;
-        if (!visited[nIdx]) {
-          const npIdx = nIdx * 4;
-          if (data[npIdx + 3] > 0 && matches(npIdx)) {
-            visited[nIdx] = 1;
-            queue.push(nIdx);
-          }
-        }
-      }
-    }
-  }
-};
+interface OnionSkinSettings {
+  enabled: boolean;
+  frames: number; // Ghosts drawn on each side of the current frame
+  tint: boolean; // Red for previous frames, green for next frames
+}
 
-// Helper to get Bounding Box based on non-transparent pixels
-const getAlphaBoundingBox = (data: Uint8ClampedArray, width: number, height: number) => {
-  let minX = width, minY = height, maxX = 0, maxY = 0;
-  let found = false;
-
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      const idx = (y * width + x) * 4;
-      if (data[idx + 3] > 0) { // Alpha > 0 means content
-        if (x < minX) minX = x;
-        if (x > maxX) maxX = x;
-        if (y < minY) minY = y;
-        if (y > maxY) maxY = y;
-        found = true;
-      }
-    }
-  }
+// A processed frame and where it lands on the preview canvas
+interface FrameLayer {
+  bitmap: ImageBitmap;
+  quantized: ImageBitmap | null; // GIF color reduction preview: the whole output canvas, drawn instead of `bitmap`
+  sx: number;
+  sy: number;
+  sw: number;
+  sh: number;
+  dx: number;
+  dy: number;
+  dw: number;
+  dh: number;
+  pivot: PivotPoint; // Preview canvas px
+}
 
-  return found ? { minX, minY, width: maxX - minX + 1, height: maxY - minY + 1 } : null;
-};
+// Opacity of the nearest ghost; farther ones fade out linearly
+const ONION_OPACITY = 0.45;
+// Opacity of the previous frame shown while nudging a paused frame
+const NUDGE_GHOST_OPACITY = 0.35;
+const ONION_PAST_TINT = 'rgba(239, 68, 68, 0.6)';
+const ONION_FUTURE_TINT = 'rgba(34, 197, 94, 0.6)';
+// The mask view paints each frame's alpha in this color over black
+const MASK_COLOR = '#ffffff';
 
-export const PreviewPlayer: React.FC<PreviewPlayerProps> = ({ imageUrl, config, dimensions }) => {
+export const PreviewPlayer: React.FC<PreviewPlayerProps> = ({ imageUrl, config: baseConfig, dimensions, onFrameOffsetChange, onFramePivotChange, onPickColor, palette, exportFormat, onLayoutChange }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const requestRef = useRef<number>(0);
   const [isPlaying, setIsPlaying] = useState(true);
   const [currentFrameDisplayIndex, setCurrentFrameDisplayIndex] = useState(0); 
   const [loadedImage, setLoadedImage] = useState<HTMLImageElement | null>(null);
+  const [clipId, setClipId] = useState<string | null>(null);
+  // Step shown while paused; stepRef tracks the step being played
+  const [pausedStep, setPausedStep] = useState(0);
+  const stepRef = useRef(0);
+  const [onionSkin, setOnionSkin] = useState<OnionSkinSettings>({ enabled: false, frames: 1, tint: true });
+  const [showQuantized, setShowQuantized] = useState(false);
+  // Keying mask: kept pixels white, removed ones black
+  const [showMask, setShowMask] = useState(false);
+  // Pointer drag on the paused frame: where it started and the offset at that moment
+  const dragRef = useRef<{ x: number; y: number; offset: FrameOffset } | null>(null);
+  // While editing pivots a click on the paused frame sets its pivot instead of dragging it
+  const [pivotEditing, setPivotEditing] = useState(false);
+  // Layer of the paused frame and its pivot on the canvas (percent), for clicks and the marker
+  const pausedLayerRef = useRef<FrameLayer | null>(null);
+  const [pivotMarker, setPivotMarker] = useState<{ x: number; y: number } | null>(null);
+  // Eyedropper on the paused frame: picks the sheet pixel under the cursor
+  const [eyedropper, setEyedropper] = useState(false);
+  const [hover, setHover] = useState<{ point: SheetPoint; left: number; top: number } | null>(null);
+
+  // Preview either the whole sequence or a single clip (with its own frames and timing)
+  const activeClip = baseConfig.clips.find(clip => clip.id === clipId) ?? null;
+  const config = useMemo(
+    () => activeClip ? applyClip(baseConfig, activeClip) : baseConfig,
+    [baseConfig, activeClip]
+  );
 
   // Load image once
   useEffect(() => {
@@ -136,179 +94,443 @@ export const PreviewPlayer: React.FC<PreviewPlayerProps> = ({ imageUrl, config,
     }
   }, [imageUrl]);
   
-  // Helper to get sequence of VALID frame indices
-  const validIndices = useMemo(() => {
-     const { rows, cols, totalFrames, excludedFrames, readOrder = 'row-major' } = config;
-     const indices: number[] = [];
-     
-     if (readOrder === 'column-major') {
-         for (let c = 0; c < cols; c++) {
-             for (let r = 0; r < rows; r++) {
-                 const i = c * rows + r;
-                 if (i < totalFrames && !excludedFrames.includes(i)) indices.push(i);
-             }
-         }
-     } else {
-         for (let r = 0; r < rows; r++) {
-             for (let c = 0; c < cols; c++) {
-                 const i = r * cols + c;
-                 if (i < totalFrames && !excludedFrames.includes(i)) indices.push(i);
-             }
-         }
+  // Sequence of VALID frames with their source rects (grid cells or free-layout sprites)
+  const frameSources = useMemo<FrameSource[]>(() => {
+     if (dimensions.width === 0) return [];
+     try {
+         return getFrameSources(config, dimensions);
+     } catch {
+         return []; // Invalid crop, nothing to preview
+     }
+  }, [config.layoutMode, config.freeFrames, config.rows, config.cols, config.offsetX, config.offsetY, config.spacingX, config.spacingY, config.cellWidth, config.cellHeight, config.crop, config.totalFrames, config.excludedFrames, config.sequence, config.readOrder, dimensions]);
+
+  // Playback order (indices into frameSources) and the start time of each step within one loop,
+  // using the delays the selected export format will really have
+  const timeline = useMemo(() => {
+     const order = applyPlaybackMode(frameSources.map((_, i) => i), config.playbackMode);
+     const starts: number[] = [];
+     let total = 0;
+     for (const index of order) {
+         starts.push(total);
+         const duration = getFrameDuration(config, frameSources[index].originalIndex);
+         total += exportFormat === 'gif' ? toGifDelay(duration) : duration;
      }
-     return indices;
-  }, [config.rows, config.cols, config.totalFrames, config.excludedFrames, config.readOrder]);
+     return { order, starts, total };
+  }, [frameSources, config.fps, config.frameDurations, config.playbackMode, exportFormat]);
 
+  // Keyed frames as ImageBitmaps, reprocessed in workers only when their key changes
+  const cacheRef = useRef<FrameCache | null>(null);
   useEffect(() => {
-    if (!loadedImage || !canvasRef.current || dimensions.width === 0) return;
+    const cache = createFrameCache();
+    cacheRef.current = cache;
+    return () => {
+      cacheRef.current = null;
+      cache.dispose();
+    };
+  }, []);
 
-    // Parse transparency config once per config change
-    let transparentRGB: { r: number, g: number, b: number } | null = null;
-    let thresholdSq = 0;
+  // Cached frames and their layout (the same the export uses); kept until the next update is done
+  const [prepared, setPrepared] = useState<{ frames: Map<number, CachedFrame>; layout: FrameLayout } | null>(null);
+  const [preparing, setPreparing] = useState<{ done: number; total: number } | null>(null);
 
-    if (config.transparent) {
-        transparentRGB = hexToRgb(config.transparent);
-        const maxDist = 441.67;
-        thresholdSq = Math.pow((config.tolerance / 100) * maxDist, 2);
+  useEffect(() => {
+    const cache = cacheRef.current;
+    if (!cache || !loadedImage || frameSources.length === 0) {
+      setPrepared(null);
+      return;
     }
+    let cancelled = false;
+    cache.update(loadedImage, config, frameSources, (done, total) => {
+      if (!cancelled) setPreparing(done < total ? { done, total } : null);
+    }).then(frames => {
+      if (cancelled || !frames) return;
+      setPrepared({ frames, layout: computeLayout(config, frameSources, getFrameBBoxes(frames)) });
+    }).catch(error => console.error(error));
+    return () => { cancelled = true; };
+  }, [loadedImage, config, frameSources]);
 
-    const animate = (time: number) => {
-      if (!canvasRef.current) return;
-      
-      if (validIndices.length === 0) return; 
+  useEffect(() => {
+    onLayoutChange(prepared?.layout ?? null);
+  }, [prepared]);
 
-      const { rows, cols, crop, scale, fps, autoAlign, alignMode } = config;
-      const frameInterval = 1000 / fps;
-      
-      const tick = Math.floor(time / frameInterval);
-      const indexInValid = tick % validIndices.length;
-      const frameIndex = validIndices[indexInValid];
-      
-      // Only update state if changed to avoid re-renders
-      setCurrentFrameDisplayIndex(prev => prev !== indexInValid + 1 ? indexInValid + 1 : prev);
+  // GIF color reduction preview of the frames the export quantizes: scaled, resized and
+  // keyed the same way, one bitmap of the output canvas per placement of `layout`
+  const [quantizedFrames, setQuantizedFrames] = useState<{ layout: FrameLayout; bitmaps: Map<number, ImageBitmap> } | null>(null);
+  useEffect(() => {
+    const cache = cacheRef.current;
+    if (!cache || !prepared || !showQuantized || (palette.mode === 'custom' && palette.colors.length === 0)) {
+      setQuantizedFrames(null);
+      return;
+    }
+    let cancelled = false;
+    const { frames, layout } = prepared;
+    cache.quantize(frames, layout, config, palette).then(bitmaps => {
+      if (!cancelled && bitmaps) setQuantizedFrames({ layout, bitmaps });
+    }).catch(error => console.error(error));
+    return () => { cancelled = true; };
+  }, [prepared, showQuantized, palette]);
+
+  useEffect(() => {
+    if (!prepared || !canvasRef.current) return;
+
+    const { frames, layout } = prepared;
+    const { loopCount } = config;
+    // The preview shows the logical canvas, before the max resolution limit
+    const canvasW = layout.logicalWidth;
+    const canvasH = layout.logicalHeight;
+
+    // Layers are reused across ticks (and by the onion skin) until the config changes
+    const layers = new Map<number, FrameLayer | null>();
+
+    // Where one frame is drawn, straight from the shared layout
+    const getLayer = (indexInValid: number): FrameLayer | null => {
+      if (layers.has(indexInValid)) return layers.get(indexInValid)!;
+
+      // The layout can still be from before the frame list changed
+      const placement = layout.placements[indexInValid];
+      const region = placement ? getLocalRegion(placement) : null;
+      const originalIndex = placement?.source.originalIndex ?? -1;
+      const bitmap = frames.get(originalIndex)?.bitmap;
+      const quantized = quantizedFrames?.layout === layout ? quantizedFrames.bitmaps.get(indexInValid) ?? null : null;
+      const layer = region && bitmap ? {
+          bitmap,
+          quantized,
+          sx: region.x, sy: region.y, sw: region.width, sh: region.height,
+          dx: placement.destX, dy: placement.destY, dw: placement.destWidth, dh: placement.destHeight,
+          pivot: {
+              x: placement.pivot.x * canvasW / layout.outputWidth,
+              y: placement.pivot.y * canvasH / layout.outputHeight,
+          },
+      } : null;
+
+      layers.set(indexInValid, layer);
+      return layer;
+    };
+
+    // Ghost of a frame: the same layer, optionally tinted over its opaque pixels
+    const tintedLayers = new Map<string, HTMLCanvasElement>();
+    const getGhostCanvas = (indexInValid: number, layer: FrameLayer, tint: string | null) => {
+      const source = layer.quantized ?? layer.bitmap;
+      if (!tint) return source;
+      const key = `${indexInValid}-${tint}`;
+      let tinted = tintedLayers.get(key);
+      if (!tinted) {
+          tinted = document.createElement('canvas');
+          tinted.width = source.width;
+          tinted.height = source.height;
+          const tintCtx = tinted.getContext('2d');
+          if (tintCtx) {
+              tintCtx.drawImage(source, 0, 0);
+              tintCtx.globalCompositeOperation = 'source-atop';
+              tintCtx.fillStyle = tint;
+              tintCtx.fillRect(0, 0, tinted.width, tinted.height);
+          }
+          tintedLayers.set(key, tinted);
+      }
+      return tinted;
+    };
+
+    // `image` is the layer's bitmap or a tinted copy of it (see getGhostCanvas)
+    const drawLayer = (ctx: CanvasRenderingContext2D, layer: FrameLayer, image: CanvasImageSource) => {
+      if (layer.quantized) {
+          ctx.drawImage(image, 0, 0, layer.quantized.width, layer.quantized.height, 0, 0, canvasW, canvasH);
+          return;
+      }
+      ctx.drawImage(image, layer.sx, layer.sy, layer.sw, layer.sh, layer.dx, layer.dy, layer.dw, layer.dh);
+    };
 
+    // Draws one step of the playback order, with onion-skin ghosts of its neighbours behind it
+    const drawStep = (step: number) => {
+      if (!canvasRef.current) return;
       const ctx = canvasRef.current.getContext('2d', { willReadFrequently: true });
       if (!ctx) return;
 
-      const frameWidthRaw = dimensions.width / cols;
-      const frameHeightRaw = dimensions.height / rows;
-
-      // Crop dimensions
-      const cropW = Math.max(1, frameWidthRaw - crop.left - crop.right);
-      const cropH = Math.max(1, frameHeightRaw - crop.top - crop.bottom);
+      const indexInValid = timeline.order[step];
+      // Only update state if changed to avoid re-renders
+      setCurrentFrameDisplayIndex(prev => prev !== indexInValid + 1 ? indexInValid + 1 : prev);
 
       // Canvas setup
-      if (canvasRef.current.width !== cropW * scale || canvasRef.current.height !== cropH * scale) {
-          canvasRef.current.width = cropW * scale;
-          canvasRef.current.height = cropH * scale;
+      if (canvasRef.current.width !== canvasW || canvasRef.current.height !== canvasH) {
+          canvasRef.current.width = canvasW;
+          canvasRef.current.height = canvasH;
       }
-      
-      // Calculate row/col
-      let col, row;
-      if (config.readOrder === 'column-major') {
-          row = frameIndex % rows;
-          col = Math.floor(frameIndex / rows);
-      } else {
-          col = frameIndex % cols;
-          row = Math.floor(frameIndex / cols);
-      }
-      
-      const srcX = (col * frameWidthRaw) + crop.left;
-      const srcY = (row * frameHeightRaw) + crop.top;
-
       ctx.imageSmoothingEnabled = false;
 
-      // --- Processing Stage ---
-      // 1. Draw frame to a temporary canvas (1:1 scale) to process pixels
-      const tempCanvas = document.createElement('canvas');
-      tempCanvas.width = cropW;
-      tempCanvas.height = cropH;
-      const tempCtx = tempCanvas.getContext('2d', { willReadFrequently: true });
-      
-      if (tempCtx) {
-          tempCtx.drawImage(loadedImage, srcX, srcY, cropW, cropH, 0, 0, cropW, cropH);
-
-          // 2. Apply Transparency if enabled
-          // Check explicitly if we have valid RGB to avoid skipping when we should process
-          if (config.transparent && transparentRGB) {
-              const imgData = tempCtx.getImageData(0, 0, cropW, cropH);
-              processTransparency(imgData.data, cropW, cropH, transparentRGB, thresholdSq, config.useFloodFill);
-              tempCtx.putImageData(imgData, 0, 0);
-          }
+      // --- Rendering Stage ---
+      ctx.clearRect(0, 0, canvasW, canvasH);
 
-          // --- Rendering Stage ---
-          ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
-          
-          // Draw white background ONLY if transparency is OFF
-          if (!config.transparent) {
-              ctx.fillStyle = '#ffffff';
-              ctx.fillRect(0, 0, canvasRef.current.width, canvasRef.current.height);
-          }
+      // Draw white background ONLY if transparency is OFF
+      if (!config.transparent && !showMask) {
+          ctx.fillStyle = '#ffffff';
+          ctx.fillRect(0, 0, canvasW, canvasH);
+      }
 
-          if (autoAlign) {
-              // Get bbox from the processed image data (checks alpha)
-              const imgData = tempCtx.getImageData(0, 0, cropW, cropH);
-              const bbox = getAlphaBoundingBox(imgData.data, cropW, cropH);
-
-              if (bbox) {
-                  const destX = Math.floor((canvasRef.current.width - bbox.width * scale) / 2);
-                  let destY = 0;
-                  if (alignMode === 'bottom') {
-                      destY = canvasRef.current.height - bbox.height * scale;
-                  } else {
-                      destY = Math.floor((canvasRef.current.height - bbox.height * scale) / 2);
-                  }
-
-                  // Draw from processed temp canvas
-                  ctx.drawImage(
-                      tempCanvas,
-                      bbox.minX, 
-                      bbox.minY,
-                      bbox.width,
-                      bbox.height,
-                      destX, 
-                      destY,
-                      bbox.width * scale, 
-                      bbox.height * scale
-                  );
+      if (showMask) {
+          ctx.fillStyle = '#000000';
+          ctx.fillRect(0, 0, canvasW, canvasH);
+      } else if (onionSkin.enabled) {
+          const stepCount = timeline.order.length;
+          // Looping animations wrap around, so the first frame's "previous" is the last one
+          const wraps = loopCount !== 1;
+          // Farthest ghosts first so nearer ones end up on top
+          for (let distance = onionSkin.frames; distance >= 1; distance--) {
+              if (distance >= stepCount) continue;
+              ctx.globalAlpha = ONION_OPACITY * (1 - (distance - 1) / onionSkin.frames);
+              for (const [offset, tint] of [[-distance, ONION_PAST_TINT], [distance, ONION_FUTURE_TINT]] as const) {
+                  const neighbour = step + offset;
+                  if (!wraps && (neighbour < 0 || neighbour >= stepCount)) continue;
+                  const neighbourIndex = timeline.order[(neighbour + stepCount) % stepCount];
+                  if (neighbourIndex === indexInValid) continue;
+                  const layer = getLayer(neighbourIndex);
+                  if (layer) drawLayer(ctx, layer, getGhostCanvas(neighbourIndex, layer, onionSkin.tint ? tint : null));
               }
-          } else {
-              // Standard Draw from processed temp canvas
-              ctx.drawImage(
-                tempCanvas,
-                0, 
-                0,
-                cropW, 
-                cropH,
-                0, 
-                0,
-                cropW * scale, 
-                cropH * scale
-              );
+          }
+          ctx.globalAlpha = 1;
+      } else if (!isPlaying && step > 0) {
+          // Nudging a paused frame: show the previous frame as a reference
+          const previousIndex = timeline.order[step - 1];
+          const previous = previousIndex !== indexInValid ? getLayer(previousIndex) : null;
+          if (previous) {
+              ctx.globalAlpha = NUDGE_GHOST_OPACITY;
+              drawLayer(ctx, previous, getGhostCanvas(previousIndex, previous, null));
+              ctx.globalAlpha = 1;
           }
       }
 
-      if (isPlaying) {
-        requestRef.current = requestAnimationFrame(animate);
+      const layer = getLayer(indexInValid);
+      if (layer) drawLayer(ctx, layer, getGhostCanvas(indexInValid, layer, showMask ? MASK_COLOR : null));
+
+      if (!isPlaying) {
+          pausedLayerRef.current = layer;
+          const marker = layer ? {
+              x: layer.pivot.x / canvasW * 100,
+              y: layer.pivot.y / canvasH * 100,
+          } : null;
+          setPivotMarker(prev => prev?.x === marker?.x && prev?.y === marker?.y ? prev : marker);
       }
     };
 
-    if (isPlaying) {
-      requestRef.current = requestAnimationFrame(animate);
+    if (!isPlaying) {
+      // Paused (or stepping): show the selected step
+      drawStep(Math.min(pausedStep, timeline.order.length - 1));
+      return;
     }
 
+    // A finite loop count is counted from when playback (re)starts
+    let startTime: number | null = null;
+
+    const animate = (time: number) => {
+      if (startTime === null) startTime = time;
+      const elapsed = loopCount > 0 ? time - startTime : time;
+      const finished = loopCount > 0 && elapsed >= timeline.total * loopCount;
+
+      // Once all plays are done, hold the last frame of the sequence
+      const loopTime = finished ? timeline.total - 1 : elapsed % timeline.total;
+      let step = timeline.order.length - 1;
+      while (step > 0 && timeline.starts[step] > loopTime) step--;
+
+      stepRef.current = step;
+      drawStep(step);
+
+      if (finished) {
+        setPausedStep(step);
+        setIsPlaying(false);
+      } else {
+        requestRef.current = requestAnimationFrame(animate);
+      }
+    };
+
+    requestRef.current = requestAnimationFrame(animate);
+
     return () => {
       if (requestRef.current) cancelAnimationFrame(requestRef.current);
     };
-  }, [loadedImage, config, dimensions, isPlaying, validIndices]);
+  }, [prepared, quantizedFrames, config, isPlaying, pausedStep, onionSkin, showMask, timeline]);
+
+  const togglePlaying = () => {
+    if (isPlaying) setPausedStep(stepRef.current);
+    else setEyedropper(false);
+    setIsPlaying(!isPlaying);
+  };
+
+  // Picking needs a still frame
+  const toggleEyedropper = () => {
+    if (!eyedropper && isPlaying) {
+      setPausedStep(stepRef.current);
+      setIsPlaying(false);
+    }
+    setPivotEditing(false);
+    setEyedropper(!eyedropper);
+  };
+
+  useEffect(() => {
+    if (!eyedropper) {
+      setHover(null);
+      return;
+    }
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setEyedropper(false);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [eyedropper]);
+
+  // Frame being nudged: the one shown while paused
+  const pausedSource = !isPlaying && timeline.order.length > 0
+    ? frameSources[timeline.order[Math.min(pausedStep, timeline.order.length - 1)]]
+    : null;
+  const pausedOffset = pausedSource ? getFrameOffset(config, pausedSource.originalIndex) : null;
+  const pausedPivot = pausedSource ? config.framePivots[pausedSource.originalIndex] ?? null : null;
+
+  const setPausedOffset = (offset: FrameOffset) => {
+    if (!pausedSource || !pausedOffset) return;
+    if (offset.dx === pausedOffset.dx && offset.dy === pausedOffset.dy) return;
+    onFrameOffsetChange(pausedSource.originalIndex, offset);
+  };
+
+  // Screen position -> canvas pixels (the canvas is CSS-scaled) -> frame-local source pixels
+  const setPivotAt = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const layer = pausedLayerRef.current;
+    if (!pausedSource || !layer) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const canvasX = (e.clientX - rect.left) * e.currentTarget.width / rect.width;
+    const canvasY = (e.clientY - rect.top) * e.currentTarget.height / rect.height;
+    onFramePivotChange(pausedSource.originalIndex, {
+      x: Math.round(layer.sx + (canvasX - layer.dx) * layer.sw / layer.dw),
+      y: Math.round(layer.sy + (canvasY - layer.dy) * layer.sh / layer.dh),
+    });
+  };
+
+  // Screen position -> canvas pixels -> frame-local source pixels -> sheet pixels
+  const updateHover = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const layer = pausedLayerRef.current;
+    if (!pausedSource || !layer) return null;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const canvasX = (e.clientX - rect.left) * e.currentTarget.width / rect.width;
+    const canvasY = (e.clientY - rect.top) * e.currentTarget.height / rect.height;
+    const localX = Math.floor(layer.sx + (canvasX - layer.dx) * layer.sw / layer.dw);
+    const localY = Math.floor(layer.sy + (canvasY - layer.dy) * layer.sh / layer.dh);
+    if (localX < 0 || localY < 0 || localX >= Math.floor(pausedSource.width) || localY >= Math.floor(pausedSource.height)) {
+      setHover(null);
+      return null;
+    }
+    const point = { x: Math.floor(pausedSource.x) + localX, y: Math.floor(pausedSource.y) + localY };
+    setHover({ point, left: e.clientX - rect.left, top: e.clientY - rect.top });
+    return point;
+  };
+
+  const handlePick = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = updateHover(e);
+    const color = loadedImage && point ? getSheetColor(loadedImage, point) : null;
+    if (!point || !color) return;
+    onPickColor({ color, point, add: e.shiftKey });
+    // Shift+click keeps picking
+    if (!e.shiftKey) setEyedropper(false);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (eyedropper) {
+      handlePick(e);
+      return;
+    }
+    if (!pausedOffset) return;
+    if (pivotEditing) {
+      setPivotAt(e);
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY, offset: pausedOffset };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (eyedropper) {
+      updateHover(e);
+      return;
+    }
+    const drag = dragRef.current;
+    if (!drag) return;
+    // Screen pixels -> canvas pixels (the canvas is CSS-scaled) -> source pixels
+    const rect = e.currentTarget.getBoundingClientRect();
+    const toSource = e.currentTarget.width / rect.width / config.scale;
+    setPausedOffset({
+      dx: drag.offset.dx + Math.round((e.clientX - drag.x) * toSource),
+      dy: drag.offset.dy + Math.round((e.clientY - drag.y) * toSource),
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!pausedOffset) return;
+    const amount = e.shiftKey ? 5 : 1;
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [-amount, 0], ArrowRight: [amount, 0], ArrowUp: [0, -amount], ArrowDown: [0, amount],
+    };
+    const move = moves[e.key];
+    if (!move) return;
+    e.preventDefault();
+    setPausedOffset({ dx: pausedOffset.dx + move[0], dy: pausedOffset.dy + move[1] });
+  };
+
+  // Stepping pauses playback and moves through the playback order
+  const stepBy = (delta: number) => {
+    const stepCount = timeline.order.length;
+    if (stepCount === 0) return;
+    const current = isPlaying ? stepRef.current : Math.min(pausedStep, stepCount - 1);
+    const next = (current + delta + stepCount) % stepCount;
+    stepRef.current = next;
+    setPausedStep(next);
+    setIsPlaying(false);
+  };
 
   if (!imageUrl) return null;
 
   return (
     <div className="flex flex-col items-center space-y-4">
       <div className="relative p-8 bg-[url('https://www.transparenttextures.com/patterns/stardust.png')] bg-slate-800 rounded-lg border border-slate-600 shadow-lg flex items-center justify-center min-h-[200px] w-full overflow-hidden">
-        <canvas ref={canvasRef} className="max-w-full max-h-[300px] object-contain shadow-sm" />
-        
+        <div
+          className="relative inline-flex max-w-full outline-none focus:ring-2 focus:ring-indigo-500/50 rounded-sm"
+          tabIndex={0}
+          onKeyDown={handleKeyDown}
+        >
+          <canvas
+            ref={canvasRef}
+            className={`max-w-full max-h-[300px] object-contain shadow-sm ${eyedropper || (pausedOffset && pivotEditing) ? 'cursor-crosshair' : pausedOffset ? 'cursor-move' : ''}`}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            onPointerLeave={() => setHover(null)}
+          />
+
+          {eyedropper && loadedImage && hover && <PixelLoupe image={loadedImage} point={hover.point} left={hover.left} top={hover.top} />}
+
+          {/* Reference crosshair while nudging */}
+          {pausedOffset && (
+            <div className="absolute inset-0 pointer-events-none">
+              <div className="absolute top-0 bottom-0 left-1/2 w-px bg-cyan-400/60"></div>
+              <div className="absolute left-0 right-0 top-1/2 h-px bg-cyan-400/60"></div>
+            </div>
+          )}
+
+          {/* Pivot of the paused frame */}
+          {pausedSource && pivotMarker && (
+            <div
+              className="absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full border-2 border-amber-400 bg-amber-400/30 pointer-events-none"
+              style={{ left: `${pivotMarker.x}%`, top: `${pivotMarker.y}%` }}
+            ></div>
+          )}
+        </div>
+
+        {/* Frames still being reprocessed after a config change */}
+        {preparing && (
+          <div className="absolute top-2 right-2 px-2 py-0.5 rounded bg-slate-900/80 text-[10px] font-mono text-slate-300 pointer-events-none">
+            处理帧 {preparing.done} / {preparing.total}
+          </div>
+        )}
+
         {/* Helper lines */}
         {config.autoAlign && (
             <div className="absolute inset-0 pointer-events-none flex items-center justify-center opacity-20">
@@ -316,26 +538,141 @@ export const PreviewPlayer: React.FC<PreviewPlayerProps> = ({ imageUrl, config,
                 <div className="h-full w-[1px] bg-red-500 absolute"></div>
                 
                 {/* Vertical Indicator depending on mode */}
-                {config.alignMode === 'center' ? (
-                   <div className="w-full h-[1px] bg-red-500 absolute"></div>
-                ) : (
+                {config.alignMode === 'bottom' ? (
                    <div className="w-full h-[1px] bg-blue-500 absolute bottom-8"></div>
+                ) : (
+                   <div className="w-full h-[1px] bg-red-500 absolute"></div>
                 )}
             </div>
         )}
       </div>
       
-      <div className="flex items-center space-x-4 bg-slate-800 p-2 rounded-full border border-slate-700 shadow-lg">
+      <div className="flex items-center space-x-2 bg-slate-800 p-2 rounded-full border border-slate-700 shadow-lg">
+        <button
+          onClick={() => stepBy(-1)}
+          className="p-1.5 rounded-full text-slate-300 hover:bg-slate-700 hover:text-white transition-colors"
+          title="上一帧"
+        >
+          <SkipBack size={16} />
+        </button>
         <button 
-          onClick={() => setIsPlaying(!isPlaying)}
+          onClick={togglePlaying}
           className="p-2 rounded-full bg-indigo-500 hover:bg-indigo-600 text-white transition-colors"
         >
           {isPlaying ? <Pause size={20} /> : <Play size={20} />}
         </button>
+        <button
+          onClick={() => stepBy(1)}
+          className="p-1.5 rounded-full text-slate-300 hover:bg-slate-700 hover:text-white transition-colors"
+          title="下一帧"
+        >
+          <SkipForward size={16} />
+        </button>
         <span className="text-xs font-mono text-slate-400 px-2">
-            帧: {currentFrameDisplayIndex} / {validIndices.length}
+            帧: {currentFrameDisplayIndex} / {frameSources.length}
         </span>
+        {baseConfig.clips.length > 0 && (
+            <select
+                value={activeClip?.id ?? ''}
+                onChange={(e) => { setClipId(e.target.value || null); setIsPlaying(true); }}
+                className="bg-slate-900 border border-slate-700 rounded-full px-3 py-1 text-xs text-white outline-none focus:ring-2 focus:ring-indigo-500"
+                title="预览片段"
+            >
+                <option value="">全部帧</option>
+                {baseConfig.clips.map(clip => (
+                    <option key={clip.id} value={clip.id}>{clip.name}</option>
+                ))}
+            </select>
+        )}
+        <button
+          onClick={() => setOnionSkin(prev => ({ ...prev, enabled: !prev.enabled }))}
+          className={`p-1.5 rounded-full transition-colors ${onionSkin.enabled ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:bg-slate-700 hover:text-white'}`}
+          title="洋葱皮：半透明显示前后帧"
+        >
+          <Layers size={16} />
+        </button>
+        <button
+          onClick={() => setShowQuantized(!showQuantized)}
+          className={`p-1.5 rounded-full transition-colors ${showQuantized ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:bg-slate-700 hover:text-white'}`}
+          title="量化预览：按 GIF 调色板设置显示减色与抖动效果"
+        >
+          <Palette size={16} />
+        </button>
+        <button
+          onClick={toggleEyedropper}
+          className={`p-1.5 rounded-full transition-colors ${eyedropper ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:bg-slate-700 hover:text-white'}`}
+          title="吸管：在暂停的帧上取原图颜色，Shift+点击添加背景色或填充种子点，Esc 退出"
+        >
+          <Pipette size={16} />
+        </button>
+        <button
+          onClick={() => setShowMask(!showMask)}
+          className={`p-1.5 rounded-full transition-colors ${showMask ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:bg-slate-700 hover:text-white'}`}
+          title="蒙版预览：白色为保留的像素，黑色为去除的背景"
+        >
+          <Contrast size={16} />
+        </button>
       </div>
+
+      {pausedSource && pausedOffset && (
+        <div className="flex items-center space-x-2 text-xs text-slate-400">
+          <span title="暂停时可拖动画面或使用方向键（Shift 加速）微调当前帧位置">
+            帧 {pausedSource.originalIndex + 1} 偏移: <span className="font-mono text-indigo-300">{pausedOffset.dx}, {pausedOffset.dy}</span>
+          </span>
+          {(pausedOffset.dx !== 0 || pausedOffset.dy !== 0) && (
+            <button
+              onClick={() => onFrameOffsetChange(pausedSource.originalIndex, { dx: 0, dy: 0 })}
+              className="px-2 py-0.5 rounded border border-slate-700 hover:bg-slate-800 hover:text-white transition-colors"
+            >
+              归零
+            </button>
+          )}
+          <button
+            onClick={() => { setPivotEditing(!pivotEditing); setEyedropper(false); }}
+            className={`flex items-center space-x-1 px-2 py-0.5 rounded border transition-colors ${pivotEditing ? 'bg-amber-600 border-amber-500 text-white' : 'border-slate-700 hover:bg-slate-800 hover:text-white'}`}
+            title="开启后点击画面设置当前帧的锚点"
+          >
+            <Anchor size={12} />
+            <span>锚点</span>
+          </button>
+          {pausedPivot && (
+            <>
+              <span className="font-mono text-amber-300">{pausedPivot.x}, {pausedPivot.y}</span>
+              <button
+                onClick={() => onFramePivotChange(pausedSource.originalIndex, null)}
+                className="px-2 py-0.5 rounded border border-slate-700 hover:bg-slate-800 hover:text-white transition-colors"
+                title="恢复为默认锚点"
+              >
+                重置
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {onionSkin.enabled && (
+        <div className="flex items-center space-x-3 text-xs text-slate-400">
+          <label className="flex items-center space-x-1">
+            <span>前后帧数</span>
+            <select
+              value={onionSkin.frames}
+              onChange={(e) => { const frames = Number(e.target.value); setOnionSkin(prev => ({ ...prev, frames })); }}
+              className="bg-slate-900 border border-slate-700 rounded px-2 py-0.5 text-white outline-none"
+            >
+              {[1, 2, 3].map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center space-x-1 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={onionSkin.tint}
+              onChange={(e) => { const tint = e.target.checked; setOnionSkin(prev => ({ ...prev, tint })); }}
+              className="accent-indigo-500"
+            />
+            <span>着色（<span className="text-red-400">前</span> / <span className="text-green-400">后</span>）</span>
+          </label>
+        </div>
+      )}
     </div>
   );
 };
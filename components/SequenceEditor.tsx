@@ -0,0 +1,148 @@
+import React, { useState, useMemo } from 'react';
+import { SpriteConfig, ImageDimensions } from '../types';
+import { ListOrdered, Copy, X, RotateCcw } from 'lucide-react';
+import { getAllFrameSources, getFrameSources, FrameSource } from '../utils/frameLayout';
+import { FrameThumbnail } from './FrameThumbnail';
+
+interface SequenceEditorProps {
+  imageUrl: string | null;
+  config: SpriteConfig;
+  dimensions: ImageDimensions;
+  onSequenceChange: (sequence: number[]) => void;
+}
+
+const THUMB_SIZE = 40;
+
+export const SequenceEditor: React.FC<SequenceEditorProps> = ({ imageUrl, config, dimensions, onSequenceChange }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const allSources = useMemo<FrameSource[]>(() => {
+    if (dimensions.width === 0) return [];
+    try {
+      return getAllFrameSources(config, dimensions);
+    } catch {
+      return [];
+    }
+  }, [config, dimensions]);
+
+  if (!imageUrl || allSources.length === 0) return null;
+
+  const { sequence } = config;
+  const isCustom = sequence.length > 0;
+
+  // Start from what currently plays (read order minus excluded frames)
+  const startCustomSequence = () => {
+    onSequenceChange(getFrameSources(config, dimensions).map(source => source.originalIndex));
+  };
+
+  const duplicateAt = (position: number) => {
+    onSequenceChange([...sequence.slice(0, position + 1), sequence[position], ...sequence.slice(position + 1)]);
+  };
+
+  const removeAt = (position: number) => {
+    onSequenceChange(sequence.filter((_, i) => i !== position));
+  };
+
+  const moveTo = (from: number, to: number) => {
+    if (from === to) return;
+    const next = [...sequence];
+    const [item] = next.splice(from, 1);
+    // Dropping onto a later item inserts after it, onto an earlier one before it
+    next.splice(to, 0, item);
+    onSequenceChange(next);
+  };
+
+  const handleDrop = (position: number) => {
+    if (dragIndex !== null) moveTo(dragIndex, position);
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <div className="bg-slate-900 rounded-lg border border-slate-800 p-3 space-y-2">
+      <div className="flex items-center justify-between text-slate-400">
+        <div className="flex items-center space-x-2">
+          <ListOrdered size={14} />
+          <h3 className="text-xs font-bold uppercase">播放序列</h3>
+        </div>
+        {isCustom ? (
+          <div className="flex items-center space-x-2">
+            <select
+              value=""
+              onChange={(e) => e.target.value !== '' && onSequenceChange([...sequence, Number(e.target.value)])}
+              className="bg-slate-950 border border-slate-700 rounded px-2 py-0.5 text-xs text-white outline-none"
+            >
+              <option value="">添加帧…</option>
+              {allSources.map(source => (
+                <option key={source.originalIndex} value={source.originalIndex}>帧 {source.originalIndex + 1}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => onSequenceChange([])}
+              className="flex items-center space-x-1 px-2 py-0.5 rounded text-xs border border-slate-700 hover:bg-slate-800 hover:text-white transition-colors"
+              title="清除自定义序列，恢复按读取顺序播放"
+            >
+              <RotateCcw size={12} />
+              <span>恢复默认</span>
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={startCustomSequence}
+            className="px-2 py-0.5 rounded text-xs border border-slate-700 hover:bg-slate-800 hover:text-white transition-colors"
+          >
+            自定义序列
+          </button>
+        )}
+      </div>
+
+      {isCustom ? (
+        <>
+          <div className="flex items-center space-x-1 overflow-x-auto pb-1">
+            {sequence.map((originalIndex, position) => {
+              const source = allSources[originalIndex];
+              if (!source) return null;
+              return (
+                <div
+                  key={position}
+                  draggable
+                  onDragStart={() => setDragIndex(position)}
+                  onDragOver={(e) => { e.preventDefault(); setDropIndex(position); }}
+                  onDragLeave={() => setDropIndex(prev => prev === position ? null : prev)}
+                  onDrop={(e) => { e.preventDefault(); handleDrop(position); }}
+                  onDragEnd={() => { setDragIndex(null); setDropIndex(null); }}
+                  className={`group relative flex-shrink-0 flex items-center justify-center bg-slate-800 rounded border cursor-grab active:cursor-grabbing transition-colors
+                    ${dropIndex === position && dragIndex !== position ? 'border-indigo-400' : 'border-slate-700'}
+                    ${dragIndex === position ? 'opacity-40' : ''}`}
+                  style={{ width: THUMB_SIZE + 8, height: THUMB_SIZE + 8 }}
+                  title={`第 ${position + 1} 步：帧 ${originalIndex + 1}（拖动排序）`}
+                >
+                  <FrameThumbnail imageUrl={imageUrl} dimensions={dimensions} rect={source} size={THUMB_SIZE} />
+                  <span className="absolute bottom-0 left-0 text-[9px] bg-black/50 text-white px-1 font-mono rounded-tr pointer-events-none">
+                    {originalIndex + 1}
+                  </span>
+                  <div className="absolute top-0 right-0 hidden group-hover:flex bg-black/60 rounded-bl">
+                    <button onClick={() => duplicateAt(position)} className="p-0.5 text-slate-200 hover:text-indigo-300" title="复制">
+                      <Copy size={10} />
+                    </button>
+                    <button onClick={() => removeAt(position)} className="p-0.5 text-slate-200 hover:text-red-400" title="删除">
+                      <X size={10} />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          <div className="text-[10px] text-slate-500">
+            自定义序列生效时，序列长度与剔除设置不再影响播放顺序；可重复使用同一帧（如 1,2,3,2）。
+          </div>
+        </>
+      ) : (
+        <div className="text-[10px] text-slate-500">
+          当前按读取顺序播放。自定义序列可重排、复制或删除帧。
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,36 +1,213 @@
-import React, { useRef } from 'react';
-import { SpriteConfig, ImageDimensions } from '../types';
-import { EyeOff } from 'lucide-react';
+import React, { useRef, useState, useMemo, useEffect } from 'react';
+import { SpriteConfig, ImageDimensions, SheetPoint, FrameRect } from '../types';
+import { EyeOff, Pipette } from 'lucide-react';
+import { orderFreeFrames, getGridGeometry, getCellOrigin, GridGeometry } from '../utils/frameLayout';
+import { getClipColor } from '../utils/clips';
+import { FrameLayout } from '../utils/frameRenderer';
+import { PixelLoupe, ColorPick, getSheetColor } from './PixelLoupe';
 
 interface SpriteCanvasProps {
   imageUrl: string | null;
   config: SpriteConfig;
   onDimensionsLoaded: (dims: ImageDimensions) => void;
   onToggleFrame: (index: number) => void;
+  onPickColor: (pick: ColorPick) => void;
+  layout: FrameLayout | null; // Layout of the preview, for the crop of the 'union' align mode
 }
 
-export const SpriteCanvas: React.FC<SpriteCanvasProps> = ({ imageUrl, config, onDimensionsLoaded, onToggleFrame }) => {
+export const SpriteCanvas: React.FC<SpriteCanvasProps> = ({ imageUrl, config, onDimensionsLoaded, onToggleFrame, onPickColor, layout }) => {
   const imgRef = useRef<HTMLImageElement>(null);
+  const [naturalSize, setNaturalSize] = useState<ImageDimensions>({ width: 0, height: 0 });
+  // Eyedropper: clicks pick sheet colors instead of toggling frames
+  const [eyedropper, setEyedropper] = useState(false);
+  const [hover, setHover] = useState<{ point: SheetPoint; left: number; top: number } | null>(null);
 
   // Handle image load to set dimensions
   const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
     const { naturalWidth, naturalHeight } = e.currentTarget;
+    setNaturalSize({ width: naturalWidth, height: naturalHeight });
     onDimensionsLoaded({ width: naturalWidth, height: naturalHeight });
   };
 
-  // CSS Grid overlay generator
-  const renderGridOverlay = () => {
-    if (!imageUrl || config.cols <= 0 || config.rows <= 0) return null;
+  // Clips each frame belongs to (indices into config.clips)
+  const clipsByFrame = useMemo(() => {
+    const map = new Map<number, number[]>();
+    config.clips.forEach((clip, clipIndex) => {
+      for (const frame of clip.frames) {
+        map.set(frame, [...(map.get(frame) ?? []), clipIndex]);
+      }
+    });
+    return map;
+  }, [config.clips]);
+
+  // Colored strip along the bottom of a cell, one segment per clip it belongs to
+  const renderClipStrip = (seqIndex: number) => {
+    const cellClips = clipsByFrame.get(seqIndex);
+    if (!cellClips) return null;
+    return (
+      <div className="absolute bottom-0 left-0 right-0 flex h-1.5 pointer-events-none">
+        {cellClips.map(clipIndex => (
+          <div key={clipIndex} className="flex-1" style={{ backgroundColor: getClipColor(clipIndex) }} />
+        ))}
+      </div>
+    );
+  };
+
+  const clipTitle = (seqIndex: number) => {
+    const cellClips = clipsByFrame.get(seqIndex);
+    return cellClips ? ` · ${cellClips.map(i => config.clips[i].name).join(', ')}` : '';
+  };
+
+  // Sheet rect each frame is cropped to by the 'union' align mode, straight from the
+  // layout the preview and export use (by original frame index)
+  const unionRegions = useMemo(() => {
+    if (!layout || !config.autoAlign || config.alignMode !== 'union') return null;
+    const regions = new Map<number, FrameRect>();
+    for (const { source, region } of layout.placements) {
+      if (region) regions.set(source.originalIndex, region);
+    }
+    return regions;
+  }, [layout, config.autoAlign, config.alignMode]);
 
+  // Crop rect inside a frame cell at (cellX, cellY) in sheet px, in percent of the cell
+  const renderUnionRect = (seqIndex: number, cellX: number, cellY: number, cellWidth: number, cellHeight: number) => {
+    const region = unionRegions?.get(seqIndex);
+    if (!region || region.width <= 0 || region.height <= 0) return null;
     return (
-      <div 
-        className="absolute inset-0 z-10"
+      <div
+        className="absolute border border-dashed border-amber-400/80 pointer-events-none"
         style={{
-          display: 'grid',
-          gridTemplateColumns: `repeat(${config.cols}, 1fr)`,
-          gridTemplateRows: `repeat(${config.rows}, 1fr)`,
+          left: `${((region.x - cellX) / cellWidth) * 100}%`,
+          top: `${((region.y - cellY) / cellHeight) * 100}%`,
+          width: `${(region.width / cellWidth) * 100}%`,
+          height: `${(region.height / cellHeight) * 100}%`,
         }}
-      >
+      />
+    );
+  };
+
+  useEffect(() => {
+    if (!eyedropper) {
+      setHover(null);
+      return;
+    }
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setEyedropper(false);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [eyedropper]);
+
+  // Screen position -> source image pixel (the image is CSS-scaled)
+  const updateHover = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return null;
+    const point = {
+      x: Math.min(naturalSize.width - 1, Math.max(0, Math.floor((e.clientX - rect.left) / rect.width * naturalSize.width))),
+      y: Math.min(naturalSize.height - 1, Math.max(0, Math.floor((e.clientY - rect.top) / rect.height * naturalSize.height))),
+    };
+    setHover({ point, left: e.clientX - rect.left, top: e.clientY - rect.top });
+    return point;
+  };
+
+  const handlePick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const point = updateHover(e);
+    const color = imgRef.current && point ? getSheetColor(imgRef.current, point) : null;
+    if (!point || !color) return;
+    onPickColor({ color, point, add: e.shiftKey });
+    // Shift+click keeps picking
+    if (!e.shiftKey) setEyedropper(false);
+  };
+
+  // Eyedropper layer above the frame overlay, with the loupe and the flood fill seeds
+  const renderEyedropper = () => (
+    <>
+      {config.transparent && config.useFloodFill && config.floodSeeds.map(({ x, y }) => (
+        <div
+          key={`${x}-${y}`}
+          className="absolute z-20 w-2 h-2 -ml-1 -mt-1 rounded-full border border-white bg-indigo-500 pointer-events-none"
+          style={{ left: `${(x + 0.5) / naturalSize.width * 100}%`, top: `${(y + 0.5) / naturalSize.height * 100}%` }}
+          title="填充种子点"
+        />
+      ))}
+      {eyedropper && (
+        <div
+          className="absolute inset-0 z-20 cursor-crosshair"
+          onMouseMove={updateHover}
+          onMouseLeave={() => setHover(null)}
+          onClick={handlePick}
+        >
+          {imgRef.current && hover && <PixelLoupe image={imgRef.current} point={hover.point} left={hover.left} top={hover.top} />}
+        </div>
+      )}
+    </>
+  );
+
+  const orderedFreeFrames = useMemo(
+    () => orderFreeFrames(config.freeFrames, config.readOrder),
+    [config.freeFrames, config.readOrder]
+  );
+
+  // Free layout overlay: one box per detected sprite, positioned in percent of the source image
+  const renderFreeOverlay = () => {
+    if (!imageUrl || naturalSize.width === 0) return null;
+
+    return (
+      <div className="absolute inset-0 z-10">
+        {orderedFreeFrames.map((rect, seqIndex) => {
+          const isExcluded = config.excludedFrames.includes(seqIndex);
+          const isOutOfRange = seqIndex >= config.totalFrames;
+
+          return (
+            <div
+              key={`${rect.x}-${rect.y}`}
+              onClick={() => !isOutOfRange && onToggleFrame(seqIndex)}
+              className={`
+                absolute border border-blue-400/70 cursor-pointer group
+                ${isOutOfRange ? 'bg-black/60 cursor-not-allowed' : 'hover:bg-blue-500/20 transition-colors'}
+                ${isExcluded ? 'bg-red-500/30' : ''}
+              `}
+              style={{
+                left: `${(rect.x / naturalSize.width) * 100}%`,
+                top: `${(rect.y / naturalSize.height) * 100}%`,
+                width: `${(rect.width / naturalSize.width) * 100}%`,
+                height: `${(rect.height / naturalSize.height) * 100}%`,
+              }}
+              title={(isOutOfRange ? "超出总帧数范围" : `帧 ${seqIndex + 1} (点击${isExcluded ? '恢复' : '剔除'})`) + clipTitle(seqIndex)}
+            >
+              <span className="absolute top-0 left-0 text-[10px] bg-black/50 text-white px-1 font-mono rounded-br shadow-sm z-10 pointer-events-none">
+                {seqIndex + 1}
+              </span>
+
+              {isExcluded && !isOutOfRange && (
+                <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                    <EyeOff className="text-red-200 drop-shadow-md w-1/2 h-1/2" />
+                </div>
+              )}
+
+              {!isExcluded && !isOutOfRange && renderUnionRect(seqIndex, rect.x, rect.y, rect.width, rect.height)}
+
+              {renderClipStrip(seqIndex)}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  // Grid overlay: cells are placed in percent of the source image so margins and gutters line up
+  const renderGridOverlay = () => {
+    if (!imageUrl || config.cols <= 0 || config.rows <= 0 || naturalSize.width === 0) return null;
+
+    let geometry: GridGeometry;
+    try {
+      geometry = getGridGeometry(config, naturalSize);
+    } catch {
+      return null; // Margins/spacing leave no room for a cell
+    }
+
+    return (
+      <div className="absolute inset-0 z-10">
         {Array.from({ length: config.rows * config.cols }).map((_, i) => {
            // Calculate current grid cell coordinates
            const r = Math.floor(i / config.cols);
@@ -46,17 +223,24 @@ export const SpriteCanvas: React.FC<SpriteCanvasProps> = ({ imageUrl, config, on
 
            const isExcluded = config.excludedFrames.includes(seqIndex);
            const isOutOfRange = seqIndex >= config.totalFrames;
+           const origin = getCellOrigin(config, geometry, r, c);
 
            return (
             <div 
               key={i} 
               onClick={() => !isOutOfRange && onToggleFrame(seqIndex)}
               className={`
-                border-r border-b border-blue-400/50 relative cursor-pointer group
+                absolute border border-blue-400/50 cursor-pointer group
                 ${isOutOfRange ? 'bg-black/60 cursor-not-allowed' : 'hover:bg-blue-500/20 transition-colors'}
                 ${isExcluded ? 'bg-red-500/30' : ''}
               `}
-              title={isOutOfRange ? "超出总帧数范围" : `帧 ${seqIndex + 1} (点击${isExcluded ? '恢复' : '剔除'})`}
+              style={{
+                left: `${(origin.x / naturalSize.width) * 100}%`,
+                top: `${(origin.y / naturalSize.height) * 100}%`,
+                width: `${(geometry.frameWidthRaw / naturalSize.width) * 100}%`,
+                height: `${(geometry.frameHeightRaw / naturalSize.height) * 100}%`,
+              }}
+              title={(isOutOfRange ? "超出总帧数范围" : `帧 ${seqIndex + 1} (点击${isExcluded ? '恢复' : '剔除'})`) + clipTitle(seqIndex)}
             >
               {/* Index Number */}
               <span className="absolute top-0 left-0 text-[10px] bg-black/50 text-white px-1 font-mono rounded-br shadow-sm z-10 pointer-events-none">
@@ -69,6 +253,12 @@ export const SpriteCanvas: React.FC<SpriteCanvasProps> = ({ imageUrl, config, on
                     <EyeOff className="text-red-200 drop-shadow-md w-1/3 h-1/3" />
                 </div>
               )}
+
+              {/* Union crop of the 'union' align mode */}
+              {!isExcluded && !isOutOfRange && renderUnionRect(seqIndex, origin.x, origin.y, geometry.frameWidthRaw, geometry.frameHeightRaw)}
+
+              {/* Clip membership */}
+              {renderClipStrip(seqIndex)}
             </div>
           );
         })}
@@ -86,7 +276,14 @@ export const SpriteCanvas: React.FC<SpriteCanvasProps> = ({ imageUrl, config, on
 
   return (
     // Fixed container. flex layout centers the inner content. overflow-hidden prevents scrollbars.
-    <div className="w-full h-full bg-slate-900/50 rounded-lg border border-slate-700 shadow-inner overflow-hidden flex items-center justify-center p-4">
+    <div className="relative w-full h-full bg-slate-900/50 rounded-lg border border-slate-700 shadow-inner overflow-hidden flex items-center justify-center p-4">
+       <button
+          onClick={() => setEyedropper(!eyedropper)}
+          className={`absolute top-2 right-2 z-30 p-1.5 rounded-md border transition-colors ${eyedropper ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-900/80 border-slate-700 text-slate-400 hover:text-white'}`}
+          title="吸管：点击取背景透明色，Shift+点击添加背景色或填充种子点，Esc 退出"
+       >
+          <Pipette size={14} />
+       </button>
        {/* 
           Wrapper: 
           - relative: allows absolute positioning of the grid overlay.
@@ -107,7 +304,8 @@ export const SpriteCanvas: React.FC<SpriteCanvasProps> = ({ imageUrl, config, on
           />
           {/* Outer Border to frame the image nicely */}
           <div className="absolute top-0 left-0 w-full h-full border border-blue-400/50 pointer-events-none"></div>
-          {renderGridOverlay()}
+          {config.layoutMode === 'free' ? renderFreeOverlay() : renderGridOverlay()}
+          {naturalSize.width > 0 && renderEyedropper()}
        </div>
     </div>
   );
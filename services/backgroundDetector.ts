@@ -0,0 +1,135 @@
+import { SpriteConfig, ImageDimensions, KeyColor, FrameRect } from "../types";
+import { getAllFrameSources } from "../utils/frameLayout";
+import { RgbaBuffer } from "../utils/framePipeline";
+import { readImagePixels } from "../utils/framePool";
+import { rgbToHex } from "../utils/palette";
+import { createColorDistance } from "../utils/colorDistance";
+import { loadImage } from "./gridDetector";
+
+// At most this many background colors are suggested
+const MAX_KEY_COLORS = 3;
+// A color must cover this share of the sampled border pixels to count as background
+const MIN_SHARE = 0.15;
+// Border colors closer than this (RGB distance) are one background color
+const MERGE_DISTANCE = 32;
+// Border pixels sampled per rect, at most
+const SAMPLES_PER_RECT = 256;
+// Corners are most likely background, so they weigh more
+const CORNER_WEIGHT = 4;
+
+interface ColorCluster {
+  count: number;
+  r: number; // Channel sums
+  g: number;
+  b: number;
+  seed: [number, number, number];
+  members: [number, number, number][]; // Mean color of each merged bucket
+}
+
+/**
+ * Votes for the colors along the border of `rect`. Transparent pixels vote for
+ * "already transparent" instead.
+ */
+const sampleBorder = (
+  sheet: RgbaBuffer,
+  rect: FrameRect,
+  votes: Map<number, { count: number; r: number; g: number; b: number }>,
+  transparent: { count: number }
+) => {
+  const left = Math.max(0, Math.floor(rect.x));
+  const top = Math.max(0, Math.floor(rect.y));
+  const right = Math.min(sheet.width, Math.floor(rect.x + rect.width)) - 1;
+  const bottom = Math.min(sheet.height, Math.floor(rect.y + rect.height)) - 1;
+  if (right < left || bottom < top) return;
+
+  const vote = (x: number, y: number, weight: number) => {
+    const p = (y * sheet.width + x) * 4;
+    if (sheet.data[p + 3] < 16) {
+      transparent.count += weight;
+      return;
+    }
+    const r = sheet.data[p], g = sheet.data[p + 1], b = sheet.data[p + 2];
+    // 4 bits per channel
+    const key = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+    const entry = votes.get(key) ?? { count: 0, r: 0, g: 0, b: 0 };
+    entry.count += weight;
+    entry.r += r * weight;
+    entry.g += g * weight;
+    entry.b += b * weight;
+    votes.set(key, entry);
+  };
+
+  const perimeter = 2 * (right - left + bottom - top) || 1;
+  const step = Math.max(1, Math.floor(perimeter / SAMPLES_PER_RECT));
+  for (let x = left + 1; x < right; x += step) {
+    vote(x, top, 1);
+    if (bottom > top) vote(x, bottom, 1);
+  }
+  for (let y = top + 1; y < bottom; y += step) {
+    vote(left, y, 1);
+    if (right > left) vote(right, y, 1);
+  }
+  for (const [x, y] of [[left, top], [right, top], [left, bottom], [right, bottom]]) {
+    vote(x, y, CORNER_WEIGHT);
+  }
+};
+
+/**
+ * Suggests the background color(s) of a sheet from the borders and corners of the
+ * sheet and of every cell. A two-tone checkerboard gives two colors. Returns an empty
+ * list when the borders are mostly transparent already.
+ */
+export const detectBackgroundColors = async (
+  base64Image: string,
+  config: SpriteConfig,
+  dimensions: ImageDimensions
+): Promise<KeyColor[]> => {
+  const image = await loadImage(base64Image);
+  const sheet = readImagePixels(image);
+
+  const votes = new Map<number, { count: number; r: number; g: number; b: number }>();
+  const transparent = { count: 0 };
+  const rects: FrameRect[] = [{ x: 0, y: 0, width: sheet.width, height: sheet.height }, ...getAllFrameSources(config, dimensions)];
+  rects.forEach(rect => sampleBorder(sheet, rect, votes, transparent));
+
+  const opaque = [...votes.values()].reduce((sum, entry) => sum + entry.count, 0);
+  if (opaque === 0 || transparent.count > opaque) return [];
+
+  // Merge neighbouring buckets into clusters, most common first
+  const clusters: ColorCluster[] = [];
+  for (const entry of [...votes.values()].sort((a, b) => b.count - a.count)) {
+    const r = entry.r / entry.count, g = entry.g / entry.count, b = entry.b / entry.count;
+    const distanceTo = (cluster: ColorCluster) =>
+      Math.sqrt((r - cluster.seed[0]) ** 2 + (g - cluster.seed[1]) ** 2 + (b - cluster.seed[2]) ** 2);
+    const cluster = clusters.find(c => distanceTo(c) < MERGE_DISTANCE);
+    if (cluster) {
+      cluster.count += entry.count;
+      cluster.r += entry.r;
+      cluster.g += entry.g;
+      cluster.b += entry.b;
+      cluster.members.push([r, g, b]);
+    } else {
+      clusters.push({ ...entry, seed: [r, g, b], members: [[r, g, b]] });
+    }
+  }
+
+  return clusters
+    .filter(cluster => cluster.count >= opaque * MIN_SHARE)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_KEY_COLORS)
+    .map(cluster => {
+      const rgb = {
+        r: Math.round(cluster.r / cluster.count),
+        g: Math.round(cluster.g / cluster.count),
+        b: Math.round(cluster.b / cluster.count),
+      };
+      // Spread on the scale of the selected metric, so the tolerance means the same thing there
+      const distance = createColorDistance(config.colorMetric, rgb);
+      const spread = Math.max(...cluster.members.map(([r, g, b]) => distance(r, g, b)));
+      return {
+        color: rgbToHex(rgb),
+        // Wide enough for the color variation seen along the borders
+        tolerance: Math.min(30, Math.max(5, Math.ceil(spread) + 3)),
+      };
+    });
+};
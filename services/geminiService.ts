@@ -1,10 +1,25 @@
 import { GoogleGenAI, Type } from "@google/genai";
 import { SpriteConfig } from "../types";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+let client: GoogleGenAI | null = null;
+
+export const isGeminiAvailable = () => Boolean(process.env.API_KEY);
+
+// Created lazily so the app still loads (and can detect offline) without an API key
+const getClient = () => {
+  if (!isGeminiAvailable()) {
+    throw new Error("Missing Gemini API key");
+  }
+  if (!client) {
+    client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return client;
+};
 
 export const analyzeSpriteSheet = async (base64Image: string): Promise<Partial<SpriteConfig>> => {
   try {
+    const ai = getClient();
+
     // Clean base64 string if it has the prefix
     const cleanBase64 = base64Image.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, "");
 
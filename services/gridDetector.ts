@@ -0,0 +1,262 @@
+import { GridDetectionResult, ReadOrder } from "../types";
+
+// Largest grid dimension the detector will consider on either axis
+const MAX_CELLS = 64;
+// Cells must be at least this many pixels wide/high to be considered
+const MIN_CELL_SIZE = 4;
+// Squared RGB distance under which a pixel counts as background / part of a uniform line
+const COLOR_MATCH_SQ = 24 * 24;
+// A cell whose content covers less than this fraction of its area is treated as empty
+const EMPTY_CELL_RATIO = 0.002;
+
+interface AxisResult {
+  count: number;
+  score: number; // 0-1
+}
+
+export const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error("无法读取图片"));
+  img.src = src;
+});
+
+const colorDistSq = (data: Uint8ClampedArray, a: number, b: number) =>
+  (data[a] - data[b]) * (data[a] - data[b]) +
+  (data[a + 1] - data[b + 1]) * (data[a + 1] - data[b + 1]) +
+  (data[a + 2] - data[b + 2]) * (data[a + 2] - data[b + 2]);
+
+/**
+ * Builds a mask of "content" pixels. The background is either transparency
+ * (when the sheet has a meaningful amount of it) or the most common border color.
+ */
+export const buildContentMask = (data: Uint8ClampedArray, width: number, height: number): Uint8Array => {
+  const mask = new Uint8Array(width * height);
+
+  let transparentCount = 0;
+  for (let p = 3; p < data.length; p += 4) {
+    if (data[p] < 16) transparentCount++;
+  }
+
+  if (transparentCount > width * height * 0.05) {
+    for (let i = 0; i < mask.length; i++) {
+      mask[i] = data[i * 4 + 3] >= 16 ? 1 : 0;
+    }
+    return mask;
+  }
+
+  // Vote for the background among border pixels (quantized to 5 bits per channel)
+  const votes = new Map<number, { count: number; idx: number }>();
+  const vote = (x: number, y: number) => {
+    const idx = (y * width + x) * 4;
+    const key = ((data[idx] >> 3) << 10) | ((data[idx + 1] >> 3) << 5) | (data[idx + 2] >> 3);
+    const entry = votes.get(key);
+    if (entry) entry.count++;
+    else votes.set(key, { count: 1, idx });
+  };
+  for (let x = 0; x < width; x++) { vote(x, 0); vote(x, height - 1); }
+  for (let y = 1; y < height - 1; y++) { vote(0, y); vote(width - 1, y); }
+
+  let bgIdx = 0;
+  let bestCount = -1;
+  for (const entry of votes.values()) {
+    if (entry.count > bestCount) {
+      bestCount = entry.count;
+      bgIdx = entry.idx;
+    }
+  }
+
+  for (let i = 0; i < mask.length; i++) {
+    const idx = i * 4;
+    mask[i] = data[idx + 3] >= 16 && colorDistSq(data, idx, bgIdx) > COLOR_MATCH_SQ ? 1 : 0;
+  }
+  return mask;
+};
+
+/**
+ * Per-line (column or row) statistics:
+ * - content: fraction of content pixels
+ * - signal: mean premultiplied luminance, used for periodicity (works even without gutters)
+ * - gutter: 1 when the line is empty (all background) or a single uniform color (a drawn grid line)
+ */
+const getLineScores = (
+  data: Uint8ClampedArray,
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  axis: 'x' | 'y'
+) => {
+  const lines = axis === 'x' ? width : height;
+  const length = axis === 'x' ? height : width;
+  const content = new Float64Array(lines);
+  const signal = new Float64Array(lines);
+  const gutter = new Float64Array(lines);
+
+  for (let line = 0; line < lines; line++) {
+    let filled = 0;
+    let uniform = 0;
+    let luma = 0;
+    const firstIdx = (axis === 'x' ? line : line * width) * 4;
+    for (let i = 0; i < length; i++) {
+      const idx = (axis === 'x' ? i * width + line : line * width + i) * 4;
+      if (mask[idx >> 2]) filled++;
+      if (data[idx + 3] === data[firstIdx + 3] && colorDistSq(data, idx, firstIdx) <= COLOR_MATCH_SQ) {
+        uniform++;
+      }
+      luma += (0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2]) * data[idx + 3] / 255;
+    }
+    content[line] = filled / length;
+    signal[line] = luma / length;
+    gutter[line] = Math.max(1 - content[line], uniform / length);
+  }
+
+  return { content, signal, gutter };
+};
+
+/**
+ * Normalized autocorrelation of a profile at a (fractional) lag.
+ */
+const autocorrelation = (profile: Float64Array, lag: number) => {
+  const n = profile.length;
+  let mean = 0;
+  for (let i = 0; i < n; i++) mean += profile[i];
+  mean /= n;
+
+  let variance = 0;
+  for (let i = 0; i < n; i++) variance += (profile[i] - mean) * (profile[i] - mean);
+  if (variance === 0) return 0;
+
+  const shift = Math.round(lag);
+  let covariance = 0;
+  for (let i = 0; i + shift < n; i++) {
+    covariance += (profile[i] - mean) * (profile[i + shift] - mean);
+  }
+  // Compensate for the shorter overlap so long lags aren't penalized
+  return (covariance / variance) * (n / Math.max(1, n - shift));
+};
+
+/**
+ * Picks the cell count along one axis. Each candidate is scored by:
+ * - how gutter-like its cell boundaries are,
+ * - how periodic the profile is at the cell size (a peak at the lag, not at half of it,
+ *   so smooth profiles and divisors of the real count don't score),
+ * - how many of its strips actually contain content (rejects tiny cells in empty space).
+ */
+const detectAxis = (content: Float64Array, signal: Float64Array, gutter: Float64Array): AxisResult => {
+  const size = content.length;
+  const maxCount = Math.min(MAX_CELLS, Math.floor(size / MIN_CELL_SIZE));
+
+  // A single cell is the fallback when nothing looks like a grid
+  let chosen: AxisResult = { count: 1, score: 0.3 };
+
+  for (let count = 2; count <= maxCount; count++) {
+    const cell = size / count;
+
+    let gutterSum = 0;
+    for (let k = 1; k < count; k++) {
+      const boundary = k * cell;
+      // The gutter may sit on either side of a fractional boundary
+      const left = Math.max(0, Math.floor(boundary) - 1);
+      const right = Math.min(size - 1, Math.ceil(boundary));
+      let best = 0;
+      for (let x = left; x <= right; x++) best = Math.max(best, gutter[x]);
+      // Only (nearly) clean lines count; a boundary cutting through sprites scores 0
+      gutterSum += Math.max(0, (best - 0.8) / 0.2);
+    }
+    const gutterScore = gutterSum / (count - 1);
+
+    const periodicScore = Math.max(0, Math.min(1,
+      autocorrelation(signal, cell) - Math.max(0, autocorrelation(signal, cell / 2))
+    ));
+
+    let occupied = 0;
+    for (let k = 0; k < count; k++) {
+      let sum = 0;
+      for (let x = Math.round(k * cell); x < Math.round((k + 1) * cell); x++) sum += content[x];
+      if (sum > 0.5) occupied++;
+    }
+    const occupancy = occupied / count;
+
+    const score = occupancy * (0.6 * gutterScore + 0.4 * periodicScore);
+    // Prefer the larger count on (near) ties
+    if (score >= chosen.score * 0.98) {
+      chosen = { count, score: Math.max(score, chosen.score) };
+    }
+  }
+
+  return chosen;
+};
+
+/**
+ * Counts the empty cells at the end of the read order to estimate totalFrames.
+ */
+const countFrames = (
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  rows: number,
+  cols: number,
+  readOrder: ReadOrder
+) => {
+  const cellW = width / cols;
+  const cellH = height / rows;
+
+  const isEmpty = (r: number, c: number) => {
+    const x0 = Math.round(c * cellW), x1 = Math.round((c + 1) * cellW);
+    const y0 = Math.round(r * cellH), y1 = Math.round((r + 1) * cellH);
+    let filled = 0;
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        filled += mask[y * width + x];
+      }
+    }
+    return filled <= (x1 - x0) * (y1 - y0) * EMPTY_CELL_RATIO;
+  };
+
+  const total = rows * cols;
+  let frames = total;
+  for (let index = total - 1; index > 0; index--) {
+    const r = readOrder === 'column-major' ? index % rows : Math.floor(index / cols);
+    const c = readOrder === 'column-major' ? Math.floor(index / rows) : index % cols;
+    if (!isEmpty(r, c)) break;
+    frames--;
+  }
+  return frames;
+};
+
+/**
+ * Offline alternative to the Gemini analysis: finds the grid from gutter lines
+ * and the periodicity of the sheet's content.
+ */
+export const detectGridLocally = async (
+  base64Image: string,
+  readOrder: ReadOrder = 'row-major'
+): Promise<GridDetectionResult> => {
+  const image = await loadImage(base64Image);
+  const width = image.naturalWidth;
+  const height = image.naturalHeight;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not create canvas context");
+  ctx.drawImage(image, 0, 0);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const mask = buildContentMask(data, width, height);
+  const columns = getLineScores(data, mask, width, height, 'x');
+  const rowLines = getLineScores(data, mask, width, height, 'y');
+
+  const colResult = detectAxis(columns.content, columns.signal, columns.gutter);
+  const rowResult = detectAxis(rowLines.content, rowLines.signal, rowLines.gutter);
+
+  const totalFrames = countFrames(mask, width, height, rowResult.count, colResult.count, readOrder);
+
+  return {
+    rows: rowResult.count,
+    cols: colResult.count,
+    totalFrames,
+    confidence: Math.max(0, Math.min(1, (colResult.score + rowResult.score) / 2)),
+  };
+};
@@ -0,0 +1,164 @@
+import { FrameRect, KeyColor, ColorMetric } from "../types";
+import { hexToRgb } from "../utils/frameRenderer";
+import { createColorDistance } from "../utils/colorDistance";
+import { loadImage, buildContentMask } from "./gridDetector";
+
+export interface SpriteDetectionOptions {
+  transparent: string | null; // Background color to key against; auto-detected when null
+  tolerance: number; // 0-100, same scale as SpriteConfig.tolerance
+  extraKeyColors: KeyColor[]; // More background colors, see SpriteConfig.extraKeyColors
+  colorMetric: ColorMetric;
+  mergeDistance: number; // Islands closer than this (px) are merged into one sprite
+}
+
+// Islands with fewer content pixels than this are treated as noise
+const MIN_ISLAND_PIXELS = 4;
+
+interface Island extends FrameRect {
+  pixels: number;
+}
+
+/**
+ * Content mask against explicit background colors (plus fully transparent pixels).
+ */
+const buildColorMask = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  colors: KeyColor[],
+  metric: ColorMetric
+): Uint8Array | null => {
+  const targets = colors.flatMap(({ color, tolerance }) => {
+    const rgb = hexToRgb(color);
+    return rgb ? [{ distance: createColorDistance(metric, rgb), tolerance }] : [];
+  });
+  if (targets.length === 0) return null;
+
+  const mask = new Uint8Array(width * height);
+
+  for (let i = 0; i < mask.length; i++) {
+    const idx = i * 4;
+    if (data[idx + 3] === 0) continue;
+    mask[i] = targets.every(({ distance, tolerance }) =>
+      distance(data[idx], data[idx + 1], data[idx + 2]) > tolerance
+    ) ? 1 : 0;
+  }
+  return mask;
+};
+
+/**
+ * 8-connected component labeling; returns the bounding box of every island.
+ */
+const labelIslands = (mask: Uint8Array, width: number, height: number): Island[] => {
+  const visited = new Uint8Array(width * height);
+  const queue = new Int32Array(width * height);
+  const islands: Island[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || visited[start]) continue;
+
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = start;
+    visited[start] = 1;
+
+    let minX = width, minY = height, maxX = 0, maxY = 0;
+
+    while (head < tail) {
+      const idx = queue[head++];
+      const x = idx % width;
+      const y = (idx - x) / width;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          if (nx < 0 || nx >= width) continue;
+          const nIdx = ny * width + nx;
+          if (mask[nIdx] && !visited[nIdx]) {
+            visited[nIdx] = 1;
+            queue[tail++] = nIdx;
+          }
+        }
+      }
+    }
+
+    islands.push({ x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1, pixels: tail });
+  }
+
+  return islands;
+};
+
+const gapBetween = (a: FrameRect, b: FrameRect) => {
+  const gapX = Math.max(0, Math.max(a.x, b.x) - Math.min(a.x + a.width, b.x + b.width));
+  const gapY = Math.max(0, Math.max(a.y, b.y) - Math.min(a.y + a.height, b.y + b.height));
+  return Math.max(gapX, gapY);
+};
+
+/**
+ * Merges islands whose boxes are within `distance` px of each other (detached
+ * pieces such as weapons, effects or anti-aliasing specks) until nothing changes.
+ */
+const mergeIslands = (islands: Island[], distance: number): Island[] => {
+  let current = islands;
+
+  for (;;) {
+    const result: Island[] = [];
+    let changed = false;
+
+    for (const island of current) {
+      const target = result.find(other => gapBetween(other, island) <= distance);
+      if (!target) {
+        result.push({ ...island });
+        continue;
+      }
+      const right = Math.max(target.x + target.width, island.x + island.width);
+      const bottom = Math.max(target.y + target.height, island.y + island.height);
+      target.x = Math.min(target.x, island.x);
+      target.y = Math.min(target.y, island.y);
+      target.width = right - target.x;
+      target.height = bottom - target.y;
+      target.pixels += island.pixels;
+      changed = true;
+    }
+
+    if (!changed) return result;
+    current = result;
+  }
+};
+
+/**
+ * Finds loosely packed sprites (no grid) as connected islands of non-background pixels.
+ */
+export const detectSpriteIslands = async (
+  base64Image: string,
+  options: SpriteDetectionOptions
+): Promise<FrameRect[]> => {
+  const image = await loadImage(base64Image);
+  const width = image.naturalWidth;
+  const height = image.naturalHeight;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not create canvas context");
+  ctx.drawImage(image, 0, 0);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const mask = (options.transparent && buildColorMask(data, width, height, [
+    { color: options.transparent, tolerance: options.tolerance },
+    ...options.extraKeyColors,
+  ], options.colorMetric))
+    || buildContentMask(data, width, height);
+
+  const islands = mergeIslands(labelIslands(mask, width, height), options.mergeDistance)
+    .filter(island => island.pixels >= MIN_ISLAND_PIXELS);
+
+  return islands.map(({ x, y, width: w, height: h }) => ({ x, y, width: w, height: h }));
+};
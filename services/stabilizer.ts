@@ -0,0 +1,62 @@
+import { SpriteConfig, ImageDimensions, FrameOffset } from "../types";
+import { getKeySettings } from "../utils/frameRenderer";
+import { getFrameSources } from "../utils/frameLayout";
+import { createFramePool, keyFramesInPool, matchFramesInPool } from "../utils/framePool";
+import { loadImage } from "./gridDetector";
+
+/**
+ * Estimates how much each frame's content moved relative to the previous one by
+ * block matching (SAD over a search window), and returns the per-frame offsets that
+ * cancel that motion. Offsets are centered so the animation stays in the middle,
+ * and keyed by original frame index like SpriteConfig.frameOffsets.
+ */
+export const estimateStabilizationOffsets = async (
+  base64Image: string,
+  config: SpriteConfig,
+  dimensions: ImageDimensions,
+  searchRadius: number
+): Promise<Record<number, FrameOffset>> => {
+  const image = await loadImage(base64Image);
+
+  // A frame repeated by a custom sequence is registered once, at its first appearance
+  const seen = new Set<number>();
+  const sources = getFrameSources(config, dimensions).filter(source => {
+    if (seen.has(source.originalIndex)) return false;
+    seen.add(source.originalIndex);
+    return true;
+  });
+
+  if (sources.length === 0) {
+    throw new Error("没有有效的帧可供分析");
+  }
+
+  // Frames are keyed like the export and matched pairwise, both in the frame worker pool
+  const width = Math.max(...sources.map(s => Math.max(1, Math.floor(s.width))));
+  const height = Math.max(...sources.map(s => Math.max(1, Math.floor(s.height))));
+  const pool = createFramePool(sources.length);
+  let shifts: { sx: number; sy: number }[];
+  try {
+    const keyed = await keyFramesInPool(pool, image, sources, getKeySettings(config, 'alpha'), config.useFloodFill, () => {});
+    const frames = sources.map(source => keyed.get(source.originalIndex)!.pixels);
+    shifts = await matchFramesInPool(pool, frames, width, height, searchRadius, () => {});
+  } finally {
+    pool.dispose();
+  }
+
+  // Accumulate frame-to-frame motion into a position per frame
+  const positions = [{ x: 0, y: 0 }];
+  shifts.forEach(({ sx, sy }, i) => {
+    positions.push({ x: positions[i].x + sx, y: positions[i].y + sy });
+  });
+
+  const meanX = Math.round(positions.reduce((sum, p) => sum + p.x, 0) / positions.length);
+  const meanY = Math.round(positions.reduce((sum, p) => sum + p.y, 0) / positions.length);
+
+  const offsets: Record<number, FrameOffset> = {};
+  sources.forEach((source, i) => {
+    const dx = meanX - positions[i].x;
+    const dy = meanY - positions[i].y;
+    if (dx !== 0 || dy !== 0) offsets[source.originalIndex] = { dx, dy };
+  });
+  return offsets;
+};
@@ -7,32 +7,159 @@ export interface CropConfig {
 }
 
 export type ReadOrder = 'row-major' | 'column-major';
-export type AlignMode = 'center' | 'bottom';
+export type AlignMode = 'center' | 'bottom' | 'stabilize' | 'pivot' | 'union';
+export type PivotPreset = 'bottom-center' | 'center' | 'fixed';
+export type LayoutMode = 'grid' | 'free';
+export type PlaybackMode = 'forward' | 'reverse' | 'pingpong';
+export type ExportFormat = 'gif' | 'apng' | 'webp' | 'atlas' | 'sequence';
+export type AtlasFormat = 'texturepacker' | 'aseprite';
+export type ColorMetric = 'rgb' | 'weighted-rgb' | 'hsv-hue' | 'lab76' | 'lab2000';
+
+export interface FrameRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FrameOffset {
+  dx: number;
+  dy: number;
+}
+
+export interface PivotPoint {
+  x: number; // Frame-local source px (0,0 = top-left of the frame rect)
+  y: number;
+}
+
+export interface SheetPoint {
+  x: number; // Source image px
+  y: number;
+}
+
+export interface AnimationClip {
+  id: string;
+  name: string; // Also used as the exported file name
+  frames: number[]; // Original frame indices in playback order, may repeat (a range is stored expanded)
+  fps: number;
+  playbackMode: PlaybackMode;
+  loopCount: number; // Number of plays, 0 = loop forever
+  pivot: PivotPoint | null; // Fixed pivot for every frame of the clip, null = use the sheet pivot settings
+}
+
+export interface KeyColor {
+  color: string; // Hex
+  tolerance: number; // 0-100, same scale as SpriteConfig.tolerance
+}
 
 export interface SpriteConfig {
+  layoutMode: LayoutMode; // Uniform rows x cols grid, or detected sprite islands
+  freeFrames: FrameRect[]; // Sprite rectangles found in free layout mode (in source pixels)
   rows: number;
   cols: number;
+  offsetX: number; // Outer margin of the sheet (px), applied on both sides when the cell size is derived
+  offsetY: number;
+  spacingX: number; // Gutter between neighbouring cells (px)
+  spacingY: number;
+  cellWidth: number | null; // Explicit cell size (px), null = derived from the sheet size
+  cellHeight: number | null;
   totalFrames: number; // Useful if the last row isn't full
   excludedFrames: number[]; // Specific indices to skip within the totalFrames
+  sequence: number[]; // Explicit playback order of original frame indices (may repeat), empty = read order
   fps: number;
+  frameDurations: Record<number, number>; // Per-frame display time overrides (ms), keyed by original frame index
+  playbackMode: PlaybackMode;
+  loopCount: number; // Number of plays, 0 = loop forever
+  frameOffsets: Record<number, FrameOffset>; // Manual nudge (source px) applied after alignment, keyed by original frame index
+  pivotPreset: PivotPreset; // How frames without an explicit pivot derive one
+  pivotPoint: PivotPoint; // Shared pivot used by the 'fixed' preset
+  framePivots: Record<number, PivotPoint>; // Per-frame pivot overrides, keyed by original frame index
   scale: number;
   transparent: string | null; // Hex color for transparency replacement if needed, usually null
   tolerance: number; // 0-100 tolerance for color matching
+  extraKeyColors: KeyColor[]; // More background colors removed along with `transparent` (e.g. a checkerboard's second tone)
+  colorMetric: ColorMetric; // How the distance to a background color is measured for every tolerance
   useFloodFill: boolean; // Use contiguous flood fill from edges (protects inner colors)
+  floodSeeds: SheetPoint[]; // Extra flood fill starts, e.g. background enclosed by the sprite
+  edgeSoftness: number; // 0-50: band (%) past the tolerance where edge pixels get partial alpha, 0 = hard edges
+  despill: boolean; // Remove the background color cast from edge pixels
+  defringe: number; // Px eroded from the content edge after keying
   autoAlign: boolean; // Automatically center the subject based on bounding box
   alignMode: AlignMode;
+  trimPadding: number; // Empty border (source px) kept around the union bbox in 'union' align mode
   readOrder: ReadOrder; // Direction to read frames
+  clips: AnimationClip[]; // Named animations within the sheet
   crop: CropConfig;
   maxResolution1024: boolean; // Limit output max dimension to 1024px
 }
 
+export interface WebpOptions {
+  lossless: boolean;
+  quality: number; // 0-100, only used in lossy mode
+}
+
+export interface AtlasOptions {
+  format: AtlasFormat; // Shape of the sidecar JSON
+  padding: number; // Pixels between packed frames
+}
+
+export interface SequenceOptions {
+  includeManifest: boolean; // Add manifest.json mapping each file to its grid cell
+}
+
+export type PaletteMode = 'auto' | 'global' | 'custom';
+export type DitherMethod = 'none' | 'floyd-steinberg' | 'bayer';
+
+export interface PaletteOptions {
+  mode: PaletteMode; // auto = own palette per frame, global = one palette for all frames, custom = imported colors
+  maxColors: number; // 2-256, including the transparent color
+  dither: DitherMethod;
+  colors: string[]; // Imported palette (hex), used by 'custom'
+  alphaThreshold: number; // 1-255: pixels with less alpha become transparent (GIF has no partial alpha)
+}
+
+export interface PivotOptions {
+  sidecar: boolean; // Add <name>.pivot.json next to animated exports (GIF / APNG / WebP)
+}
+
+export interface ExportOptions {
+  webp: WebpOptions;
+  atlas: AtlasOptions;
+  sequence: SequenceOptions;
+  pivot: PivotOptions;
+  palette: PaletteOptions; // Color quantization of GIF exports
+}
+
+export interface ExportFile {
+  name: string;
+  blob: Blob;
+}
+
 export interface ImageDimensions {
   width: number;
   height: number;
 }
 
+export type DetectionMode = 'gemini' | 'local';
+
+export interface GridDetectionResult {
+  rows: number;
+  cols: number;
+  totalFrames: number;
+  confidence: number; // 0-1
+}
+
+/**
+ * Export steps, each reporting its own 0-100 progress:
+ * content bbox analysis, per-frame pixel processing, then encoding.
+ */
+export type ExportPhase = 'analyzing' | 'processing' | 'encoding';
+
+export type ExportProgressHandler = (pct: number, phase: ExportPhase) => void;
+
 export interface ProcessingState {
   status: 'idle' | 'analyzing' | 'rendering' | 'completed';
   progress: number; // 0 to 100
+  phase?: ExportPhase; // Current export step while rendering
   error?: string;
 }
\ No newline at end of file
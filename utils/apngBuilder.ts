@@ -0,0 +1,101 @@
+import { SpriteConfig, ImageDimensions, ExportProgressHandler } from "../types";
+import { RenderedFrame, EncodedAnimation } from "./frameRenderer";
+import { renderFrames } from "./framePool";
+import { applyPlaybackMode } from "./frameTiming";
+import { compress, concatBytes } from "./binary";
+import { PNG_SIGNATURE, makeChunk, filterScanlines } from "./pngEncoder";
+
+const MAX_UINT16 = 65535;
+
+/**
+ * fcTL delay as a 16-bit numerator/denominator pair: milliseconds while they fit,
+ * 1/100 s for longer frames (up to ~11 minutes, clamped beyond that).
+ */
+export const getDelayFraction = (delayMs: number): [number, number] => {
+  const ms = Math.max(0, Math.round(delayMs));
+  if (ms <= MAX_UINT16) return [ms, 1000];
+  return [Math.min(MAX_UINT16, Math.round(ms / 10)), 100];
+};
+
+export const generateApng = async (
+  image: HTMLImageElement,
+  config: SpriteConfig,
+  dimensions: ImageDimensions,
+  onProgress: ExportProgressHandler
+): Promise<EncodedAnimation> => {
+  // APNG keeps real 8-bit alpha, so removed background becomes alpha 0 instead of a key color
+  const rendered = await renderFrames(image, config, dimensions, 'alpha', onProgress);
+  const { width, height } = rendered;
+  const frames = applyPlaybackMode(rendered.frames, config.playbackMode);
+  // Ping-pong repeats frames; compress each distinct frame only once
+  const compressedFrames = new Map<RenderedFrame, Uint8Array>();
+
+  const parts: Uint8Array[] = [PNG_SIGNATURE];
+
+  // IHDR: 8-bit RGBA, no interlace
+  const ihdr = new Uint8Array(13);
+  const ihdrView = new DataView(ihdr.buffer);
+  ihdrView.setUint32(0, width);
+  ihdrView.setUint32(4, height);
+  ihdr[8] = 8; // Bit depth
+  ihdr[9] = 6; // Color type: truecolor with alpha
+  parts.push(makeChunk('IHDR', ihdr));
+
+  // acTL: frame count + number of plays (0 = loop forever)
+  const actl = new Uint8Array(8);
+  const actlView = new DataView(actl.buffer);
+  actlView.setUint32(0, frames.length);
+  actlView.setUint32(4, config.loopCount);
+  parts.push(makeChunk('acTL', actl));
+
+  // fcTL and fdAT chunks share one sequence counter
+  let sequenceNumber = 0;
+
+  for (let i = 0; i < frames.length; i++) {
+    const frame = frames[i];
+
+    const fctl = new Uint8Array(26);
+    const fctlView = new DataView(fctl.buffer);
+    fctlView.setUint32(0, sequenceNumber++);
+    fctlView.setUint32(4, width);
+    fctlView.setUint32(8, height);
+    fctlView.setUint32(12, 0); // x offset
+    fctlView.setUint32(16, 0); // y offset
+    const [delayNum, delayDen] = getDelayFraction(frame.delay);
+    fctlView.setUint16(20, delayNum);
+    fctlView.setUint16(22, delayDen);
+    fctl[24] = 0; // dispose_op: none (every frame covers the full canvas)
+    fctl[25] = 0; // blend_op: source (replace, so transparent pixels don't accumulate)
+    parts.push(makeChunk('fcTL', fctl));
+
+    let compressed = compressedFrames.get(frame);
+    if (!compressed) {
+      compressed = await compress(filterScanlines(frame.imageData.data, width, height), 'deflate');
+      compressedFrames.set(frame, compressed);
+    }
+
+    if (i === 0) {
+      // The first frame doubles as the default image for non-APNG decoders
+      parts.push(makeChunk('IDAT', compressed));
+    } else {
+      const fdat = new Uint8Array(4 + compressed.length);
+      new DataView(fdat.buffer).setUint32(0, sequenceNumber++);
+      fdat.set(compressed, 4);
+      parts.push(makeChunk('fdAT', fdat));
+    }
+
+    onProgress(Math.round(((i + 1) / frames.length) * 100), 'encoding');
+  }
+
+  parts.push(makeChunk('IEND', new Uint8Array(0)));
+
+  return {
+    blob: new Blob([concatBytes(parts)], { type: 'image/png' }),
+    width,
+    height,
+    frames: frames.map(({ originalIndex, delay, pivot }) => {
+      const [num, den] = getDelayFraction(delay);
+      return { originalIndex, delay: num * 1000 / den, pivot };
+    }),
+  };
+};
@@ -0,0 +1,265 @@
+import { SpriteConfig, ImageDimensions, AtlasOptions, ExportFile, ExportProgressHandler } from "../types";
+import { getKeySettings } from "./frameRenderer";
+import { KeyedFrame } from "./framePipeline";
+import { createFramePool, keyFramesInPool, renderFramesInPool } from "./framePool";
+import { getFrameSources, FrameSource } from "./frameLayout";
+import { getFrameDuration } from "./frameTiming";
+import { resolvePivot, describePivot } from "./pivots";
+import { applyClip } from "./clips";
+
+interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+interface AtlasFrameData {
+  frame: Rect;
+  rotated: boolean;
+  trimmed: boolean;
+  spriteSourceSize: Rect;
+  sourceSize: { w: number; h: number };
+  pivot: { x: number; y: number }; // Normalized to sourceSize, as TexturePacker writes it
+  pivotPixels: { x: number; y: number }; // Same point in sourceSize pixels
+  duration: number;
+}
+
+interface FrameTag {
+  name: string;
+  from: number;
+  to: number;
+  direction: 'forward' | 'reverse' | 'pingpong';
+}
+
+interface PackResult {
+  positions: { x: number; y: number }[];
+  width: number;
+  height: number;
+}
+
+/**
+ * Shelf packing: sprites sorted by height are laid out left to right in rows.
+ */
+const packShelves = (sizes: { w: number; h: number }[], padding: number, maxWidth: number): PackResult => {
+  const order = sizes.map((_, i) => i).sort((a, b) => (sizes[b].h - sizes[a].h) || (sizes[b].w - sizes[a].w));
+  const positions: { x: number; y: number }[] = new Array(sizes.length);
+
+  let x = 0;
+  let y = 0;
+  let shelfHeight = 0;
+  let usedWidth = 0;
+
+  for (const i of order) {
+    const { w, h } = sizes[i];
+    if (x > 0 && x + w > maxWidth) {
+      y += shelfHeight + padding;
+      x = 0;
+      shelfHeight = 0;
+    }
+    positions[i] = { x, y };
+    usedWidth = Math.max(usedWidth, x + w);
+    shelfHeight = Math.max(shelfHeight, h);
+    x += w + padding;
+  }
+
+  return { positions, width: usedWidth, height: y + shelfHeight };
+};
+
+/**
+ * Tries a range of shelf widths and keeps the layout with the smallest area.
+ */
+const packRects = (sizes: { w: number; h: number }[], padding: number): PackResult => {
+  const widest = Math.max(...sizes.map(s => s.w));
+  const totalWidth = sizes.reduce((sum, s) => sum + s.w + padding, 0);
+  const totalArea = sizes.reduce((sum, s) => sum + (s.w + padding) * (s.h + padding), 0);
+
+  let width = Math.max(widest, Math.ceil(Math.sqrt(totalArea)));
+  let best = packShelves(sizes, padding, width);
+  while (width < totalWidth) {
+    width = Math.ceil(width * 1.1);
+    const result = packShelves(sizes, padding, width);
+    if (result.width * result.height < best.width * best.height) {
+      best = result;
+    }
+  }
+  return best;
+};
+
+const frameName = (index: number) => `frame_${String(index).padStart(3, '0')}.png`;
+
+interface AtlasEntry {
+  source: FrameSource;
+  config: SpriteConfig; // Timing and pivot settings of the clip the entry belongs to
+}
+
+/**
+ * Frames listed in the JSON, plus one frame tag per clip. A clip's frames are listed back
+ * to back, in its own order with repeats, so its tag is a from/to range. Without clips the
+ * whole animation is a single tag.
+ */
+const getAtlasEntries = (config: SpriteConfig, dimensions: ImageDimensions) => {
+  const groups = config.clips.length > 0
+    ? config.clips.map(clip => ({ name: clip.name, config: applyClip(config, clip) }))
+    : [{ name: 'animation', config }];
+
+  const entries: AtlasEntry[] = [];
+  const frameTags: FrameTag[] = [];
+  for (const group of groups) {
+    const sources = getFrameSources(group.config, dimensions);
+    if (sources.length === 0) continue;
+    frameTags.push({
+      name: group.name,
+      from: entries.length,
+      to: entries.length + sources.length - 1,
+      direction: group.config.playbackMode,
+    });
+    entries.push(...sources.map(source => ({ source, config: group.config })));
+  }
+  return { entries, frameTags };
+};
+
+export const generateAtlas = async (
+  image: HTMLImageElement,
+  config: SpriteConfig,
+  dimensions: ImageDimensions,
+  options: AtlasOptions,
+  baseName: string,
+  onProgress: ExportProgressHandler
+): Promise<ExportFile[]> => {
+  const { scale, useFloodFill = true } = config;
+  const { entries, frameTags } = getAtlasEntries(config, dimensions);
+  // Each frame is packed once, however many entries show it
+  const sources = [...new Map(entries.map(({ source }) => [source.originalIndex, source])).values()];
+  const sourceSlots = new Map(sources.map((source, i) => [source.originalIndex, i]));
+
+  if (sources.length === 0) {
+    throw new Error("没有有效的帧可供生成");
+  }
+
+  // Same bbox analysis as auto align, always run here since it defines the trim
+  const keySettings = getKeySettings(config, 'alpha');
+  const pool = createFramePool(sources.length);
+
+  let keyed: Map<number, KeyedFrame>;
+  let trims: Rect[];
+  let trimmedFrames: ImageData[];
+  try {
+    keyed = await keyFramesInPool(pool, image, sources, keySettings, useFloodFill, pct => onProgress(pct, 'analyzing'));
+
+    // Trimmed rect of each frame inside its (scaled) source rect.
+    // Empty frames are kept as a 1x1 transparent sprite so frame numbering stays intact.
+    trims = sources.map(({ originalIndex }) => {
+      const bbox = keyed.get(originalIndex)?.bbox;
+      if (!bbox) return { x: 0, y: 0, w: 1, h: 1 };
+      return {
+        x: Math.floor(bbox.minX * scale),
+        y: Math.floor(bbox.minY * scale),
+        w: Math.max(1, Math.floor(bbox.width * scale)),
+        h: Math.max(1, Math.floor(bbox.height * scale)),
+      };
+    });
+
+    trimmedFrames = await renderFramesInPool(pool, sources.map((source, i) => {
+      const frame = keyed.get(source.originalIndex);
+      const bbox = frame?.bbox;
+      const { w, h } = trims[i];
+      return {
+        frame: frame?.pixels ?? null,
+        region: bbox ? { x: bbox.minX, y: bbox.minY, width: bbox.width, height: bbox.height } : null,
+        target: {
+          canvasWidth: w, canvasHeight: h,
+          destX: 0, destY: 0, destWidth: w, destHeight: h,
+          outputWidth: w, outputHeight: h,
+          fillWhite: false,
+        },
+      };
+    }), null, pct => onProgress(pct, 'processing'));
+  } finally {
+    pool.dispose();
+  }
+
+  // Untrimmed size of each frame (grid cells share one size, free-layout sprites don't)
+  const sourceSizes = sources.map(source => ({
+    w: Math.floor(source.width * scale),
+    h: Math.floor(source.height * scale),
+  }));
+
+  const packed = packRects(trims, options.padding);
+
+  const atlasCanvas = document.createElement('canvas');
+  atlasCanvas.width = packed.width;
+  atlasCanvas.height = packed.height;
+  const atlasCtx = atlasCanvas.getContext('2d');
+
+  if (!atlasCtx) {
+    throw new Error("Could not create canvas context");
+  }
+
+  const frames: { name: string; data: AtlasFrameData }[] = [];
+
+  sources.forEach((source, i) => {
+    if (keyed.get(source.originalIndex)?.bbox) {
+      atlasCtx.putImageData(trimmedFrames[i], packed.positions[i].x, packed.positions[i].y);
+    }
+  });
+
+  for (let i = 0; i < entries.length; i++) {
+    const { source, config: entryConfig } = entries[i];
+    const slot = sourceSlots.get(source.originalIndex)!;
+    const bbox = keyed.get(source.originalIndex)?.bbox;
+    const trim = trims[slot];
+    const sourceSize = sourceSizes[slot];
+    const position = packed.positions[slot];
+
+    const pivot = resolvePivot(entryConfig, source, bbox ?? null);
+    const pivotInfo = describePivot({ x: pivot.x * scale, y: pivot.y * scale }, sourceSize.w, sourceSize.h);
+
+    frames.push({
+      name: frameName(i),
+      data: {
+        frame: { x: position.x, y: position.y, w: trim.w, h: trim.h },
+        rotated: false,
+        trimmed: trim.x !== 0 || trim.y !== 0 || trim.w !== sourceSize.w || trim.h !== sourceSize.h,
+        spriteSourceSize: trim,
+        sourceSize,
+        pivot: pivotInfo.pivotNormalized,
+        pivotPixels: pivotInfo.pivot,
+        duration: Math.round(getFrameDuration(entryConfig, source.originalIndex)),
+      },
+    });
+
+    onProgress(Math.round(((i + 1) / entries.length) * 100), 'encoding');
+  }
+
+  const meta = {
+    app: 'SpriteMotion',
+    version: '1.0',
+    image: `${baseName}.png`,
+    format: 'RGBA8888',
+    size: { w: packed.width, h: packed.height },
+    scale: '1',
+    frameTags,
+  };
+
+  // TexturePacker "JSON Hash" keys frames by name; Aseprite's "json-array" lists them with a filename
+  const json = options.format === 'aseprite'
+    ? {
+        frames: frames.map(({ name, data }) => ({ filename: name, ...data })),
+        meta: { ...meta, layers: [], slices: [] },
+      }
+    : {
+        frames: Object.fromEntries(frames.map(({ name, data }) => [name, data])),
+        meta,
+      };
+
+  const atlasBlob = await new Promise<Blob | null>(resolve => atlasCanvas.toBlob(resolve, 'image/png'));
+  if (!atlasBlob) {
+    throw new Error("图集 PNG 生成失败");
+  }
+
+  return [
+    { name: `${baseName}.png`, blob: atlasBlob },
+    { name: `${baseName}.json`, blob: new Blob([JSON.stringify(json, null, 2)], { type: 'application/json' }) },
+  ];
+};
@@ -0,0 +1,57 @@
+// Small byte-level helpers shared by the in-browser file encoders (APNG, ZIP, ...)
+
+let crcTable: Uint32Array | null = null;
+
+const getCrcTable = () => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+};
+
+/**
+ * Standard CRC-32 (IEEE 802.3), as used by PNG chunks and ZIP entries.
+ * Pass the previous result as `crc` to continue a running checksum.
+ */
+export const crc32 = (data: Uint8Array, crc = 0): number => {
+  const table = getCrcTable();
+  let c = (crc ^ 0xffffffff) >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    c = table[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Compresses bytes with the browser's native CompressionStream.
+ * 'deflate' produces a zlib stream (PNG), 'deflate-raw' a bare DEFLATE stream (ZIP).
+ */
+export const compress = async (data: Uint8Array, format: CompressionFormat): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  let length = 0;
+  for (const part of parts) length += part.length;
+  const out = new Uint8Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+export const asciiBytes = (text: string): Uint8Array => {
+  const out = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) out[i] = text.charCodeAt(i) & 0xff;
+  return out;
+};
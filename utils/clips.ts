@@ -0,0 +1,110 @@
+import { SpriteConfig, AnimationClip } from "../types";
+import { orderFreeFrames, getValidFrameCoordinates } from "./frameLayout";
+
+// Distinct hues for color-coding clips on the sheet
+const CLIP_COLORS = ['#f59e0b', '#10b981', '#3b82f6', '#ec4899', '#8b5cf6', '#ef4444', '#14b8a6', '#eab308'];
+
+export const getClipColor = (index: number) => CLIP_COLORS[index % CLIP_COLORS.length];
+
+export const createClipId = () => `clip_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`;
+
+/**
+ * Parses a 1-based frame list such as "1-8" or "1, 3, 5-7" into 0-based indices, in the
+ * typed order and with repeats kept ("5, 3, 1" plays backwards).
+ */
+export const parseFrameSpec = (spec: string): number[] => {
+  const frames: number[] = [];
+
+  for (const part of spec.split(/[,，\s]+/).filter(Boolean)) {
+    const match = part.match(/^(\d+)(?:-(\d+))?$/);
+    if (!match) {
+      throw new Error(`无法识别的帧范围: "${part}"`);
+    }
+    const from = Number(match[1]);
+    const to = match[2] !== undefined ? Number(match[2]) : from;
+    if (from < 1 || to < from) {
+      throw new Error(`无效的帧范围: "${part}"`);
+    }
+    for (let i = from; i <= to; i++) frames.push(i - 1);
+  }
+
+  return frames;
+};
+
+/**
+ * Formats 0-based indices back into the compact 1-based form, e.g. [0,1,2,4] -> "1-3, 5".
+ */
+export const formatFrameSpec = (frames: number[]): string => {
+  const parts: string[] = [];
+  let i = 0;
+  while (i < frames.length) {
+    let j = i;
+    while (j + 1 < frames.length && frames[j + 1] === frames[j] + 1) j++;
+    parts.push(j > i ? `${frames[i] + 1}-${frames[j] + 1}` : `${frames[i] + 1}`);
+    i = j + 1;
+  }
+  return parts.join(', ');
+};
+
+/**
+ * Returns the config that plays only the clip: its frames become the sequence (so every
+ * exporter works unchanged and the clip's order and repeats are kept), its timing
+ * replaces the global one, and it is the only clip left.
+ */
+export const applyClip = (config: SpriteConfig, clip: AnimationClip): SpriteConfig => {
+  const included = new Set(clip.frames);
+  const totalFrames = clip.frames.length > 0 ? Math.max(...clip.frames) + 1 : 0;
+  const excludedFrames: number[] = [];
+  for (let i = 0; i < totalFrames; i++) {
+    if (!included.has(i)) excludedFrames.push(i);
+  }
+
+  return {
+    ...config,
+    totalFrames,
+    excludedFrames,
+    sequence: clip.frames,
+    clips: [clip],
+    fps: clip.fps,
+    playbackMode: clip.playbackMode,
+    loopCount: clip.loopCount,
+    // A clip pivot replaces the sheet preset; per-frame pivots still take priority
+    ...(clip.pivot ? { pivotPreset: 'fixed' as const, pivotPoint: clip.pivot } : {}),
+  };
+};
+
+/**
+ * File-system safe version of a clip name.
+ */
+export const clipFileName = (name: string) => name.trim().replace(/[\\/:*?"<>|]+/g, '_') || 'clip';
+
+/**
+ * One clip per line of the sheet (row in row-major order, column in column-major order),
+ * the usual layout of a character sheet: idle, walk, attack...
+ */
+export const createClipsByLine = (config: SpriteConfig): AnimationClip[] => {
+  const byRows = config.readOrder !== 'column-major';
+  const coords = config.layoutMode === 'free'
+    ? orderFreeFrames(config.freeFrames, config.readOrder)
+        .map((rect, originalIndex) => ({ r: rect.r, c: rect.c, originalIndex }))
+        .filter(({ originalIndex }) => originalIndex < config.totalFrames && !config.excludedFrames.includes(originalIndex))
+    : getValidFrameCoordinates(config);
+
+  const lines = new Map<number, number[]>();
+  for (const { r, c, originalIndex } of coords) {
+    const line = byRows ? r : c;
+    lines.set(line, [...(lines.get(line) ?? []), originalIndex]);
+  }
+
+  return [...lines.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([line, frames]) => ({
+      id: createClipId(),
+      name: `${byRows ? 'row' : 'column'}_${line + 1}`,
+      frames,
+      fps: config.fps,
+      playbackMode: config.playbackMode,
+      loopCount: config.loopCount,
+      pivot: null,
+    }));
+};
@@ -0,0 +1,170 @@
+import { ColorMetric } from "../types";
+import { RGB } from "./frameRenderer";
+
+/**
+ * Distance of a color to one fixed key color, on the scale of SpriteConfig.tolerance:
+ * 0 = identical, 100 = black vs white (hue metric: opposite hues).
+ */
+export type ColorDistance = (r: number, g: number, b: number) => number;
+
+const MAX_RGB_DISTANCE = 441.67;
+// "Redmean" weights at their largest spread (black vs white)
+const MAX_WEIGHTED_DISTANCE = 765;
+// Below these the hue of a pixel is noise: dark outlines and grays are never hue-keyed
+const MIN_HUE_SATURATION = 0.25;
+const MIN_HUE_VALUE = 0.35;
+
+interface Lab {
+  l: number;
+  a: number;
+  b: number;
+}
+
+const toLinear = (channel: number) => {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+};
+
+// sRGB -> CIE XYZ (D65) -> CIELAB
+const rgbToLab = (r: number, g: number, b: number): Lab => {
+  const lr = toLinear(r), lg = toLinear(g), lb = toLinear(b);
+  const x = (0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb) / 0.95047;
+  const y = 0.2126729 * lr + 0.7151522 * lg + 0.0721750 * lb;
+  const z = (0.0193339 * lr + 0.1191920 * lg + 0.9503041 * lb) / 1.08883;
+  const f = (t: number) => t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+  const fx = f(x), fy = f(y), fz = f(z);
+  return { l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+};
+
+const deltaE76 = (p: Lab, q: Lab) => Math.sqrt((p.l - q.l) ** 2 + (p.a - q.a) ** 2 + (p.b - q.b) ** 2);
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+const toDegrees = (radians: number) => radians * 180 / Math.PI;
+
+// CIEDE2000 (Sharma et al. 2005), kL = kC = kH = 1
+const deltaE2000 = (p: Lab, q: Lab) => {
+  const c1 = Math.sqrt(p.a * p.a + p.b * p.b);
+  const c2 = Math.sqrt(q.a * q.a + q.b * q.b);
+  const cMean7 = ((c1 + c2) / 2) ** 7;
+  const g = 0.5 * (1 - Math.sqrt(cMean7 / (cMean7 + 25 ** 7)));
+  const a1 = (1 + g) * p.a;
+  const a2 = (1 + g) * q.a;
+  const c1p = Math.sqrt(a1 * a1 + p.b * p.b);
+  const c2p = Math.sqrt(a2 * a2 + q.b * q.b);
+  const hue = (b: number, a: number) => {
+    if (a === 0 && b === 0) return 0;
+    const h = toDegrees(Math.atan2(b, a));
+    return h < 0 ? h + 360 : h;
+  };
+  const h1 = hue(p.b, a1);
+  const h2 = hue(q.b, a2);
+
+  const dL = q.l - p.l;
+  const dC = c2p - c1p;
+  let dh = 0;
+  if (c1p * c2p !== 0) {
+    dh = h2 - h1;
+    if (dh > 180) dh -= 360;
+    else if (dh < -180) dh += 360;
+  }
+  const dH = 2 * Math.sqrt(c1p * c2p) * Math.sin(toRadians(dh / 2));
+
+  const lMean = (p.l + q.l) / 2;
+  const cMeanP = (c1p + c2p) / 2;
+  let hMean = h1 + h2;
+  if (c1p * c2p !== 0) {
+    if (Math.abs(h1 - h2) <= 180) hMean /= 2;
+    else hMean = h1 + h2 < 360 ? (h1 + h2 + 360) / 2 : (h1 + h2 - 360) / 2;
+  }
+
+  const t = 1
+    - 0.17 * Math.cos(toRadians(hMean - 30))
+    + 0.24 * Math.cos(toRadians(2 * hMean))
+    + 0.32 * Math.cos(toRadians(3 * hMean + 6))
+    - 0.20 * Math.cos(toRadians(4 * hMean - 63));
+  const dTheta = 30 * Math.exp(-(((hMean - 275) / 25) ** 2));
+  const cMeanP7 = cMeanP ** 7;
+  const rc = 2 * Math.sqrt(cMeanP7 / (cMeanP7 + 25 ** 7));
+  const lOffset = (lMean - 50) ** 2;
+  const sl = 1 + (0.015 * lOffset) / Math.sqrt(20 + lOffset);
+  const sc = 1 + 0.045 * cMeanP;
+  const sh = 1 + 0.015 * cMeanP * t;
+  const rt = -Math.sin(toRadians(2 * dTheta)) * rc;
+
+  return Math.sqrt((dL / sl) ** 2 + (dC / sc) ** 2 + (dH / sh) ** 2 + rt * (dC / sc) * (dH / sh));
+};
+
+// Hue in degrees, saturation and value 0-1
+const rgbToHsv = (r: number, g: number, b: number) => {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const delta = max - min;
+  let h = 0;
+  if (delta > 0) {
+    if (max === r) h = ((g - b) / delta) % 6;
+    else if (max === g) h = (b - r) / delta + 2;
+    else h = (r - g) / delta + 4;
+    h *= 60;
+    if (h < 0) h += 360;
+  }
+  return { h, s: max === 0 ? 0 : delta / max, v: max / 255 };
+};
+
+/**
+ * Lab metrics are costly per pixel, but sprites have few distinct colors: the
+ * distance of each color is computed once.
+ */
+const memoize = (distance: ColorDistance): ColorDistance => {
+  const cache = new Map<number, number>();
+  return (r, g, b) => {
+    const key = (r << 16) | (g << 8) | b;
+    let value = cache.get(key);
+    if (value === undefined) {
+      value = distance(r, g, b);
+      cache.set(key, value);
+    }
+    return value;
+  };
+};
+
+const rgbDistance = (target: RGB): ColorDistance => (r, g, b) =>
+  Math.sqrt((r - target.r) ** 2 + (g - target.g) ** 2 + (b - target.b) ** 2) / MAX_RGB_DISTANCE * 100;
+
+/**
+ * Distance function to `target` for the given metric:
+ * - 'rgb': Euclidean RGB distance
+ * - 'weighted-rgb': "redmean" weighted RGB, closer to perceived differences
+ * - 'hsv-hue': hue angle only (180° = 100), so shading of the key color is matched
+ *   while dark or gray pixels never are; a gray key color falls back to RGB
+ * - 'lab76' / 'lab2000': CIELAB ΔE, used as is (ΔE 100 = black vs white)
+ */
+export const createColorDistance = (metric: ColorMetric, target: RGB): ColorDistance => {
+  switch (metric) {
+    case 'weighted-rgb':
+      return (r, g, b) => {
+        const rMean = (r + target.r) / 2;
+        const dr = r - target.r, dg = g - target.g, db = b - target.b;
+        return Math.sqrt((2 + rMean / 256) * dr * dr + 4 * dg * dg + (2 + (255 - rMean) / 256) * db * db) / MAX_WEIGHTED_DISTANCE * 100;
+      };
+    case 'hsv-hue': {
+      const key = rgbToHsv(target.r, target.g, target.b);
+      if (key.s < MIN_HUE_SATURATION || key.v < MIN_HUE_VALUE) return rgbDistance(target);
+      return (r, g, b) => {
+        const { h, s, v } = rgbToHsv(r, g, b);
+        if (s < MIN_HUE_SATURATION || v < MIN_HUE_VALUE) return 100;
+        const diff = Math.abs(h - key.h);
+        return Math.min(diff, 360 - diff) / 180 * 100;
+      };
+    }
+    case 'lab76': {
+      const key = rgbToLab(target.r, target.g, target.b);
+      return memoize((r, g, b) => deltaE76(rgbToLab(r, g, b), key));
+    }
+    case 'lab2000': {
+      const key = rgbToLab(target.r, target.g, target.b);
+      return memoize((r, g, b) => deltaE2000(rgbToLab(r, g, b), key));
+    }
+    default:
+      return rgbDistance(target);
+  }
+};
@@ -0,0 +1,222 @@
+import { SpriteConfig, PaletteOptions } from "../types";
+import { FrameSource } from "./frameLayout";
+import { KeySettings, FrameLayout, getKeySettings } from "./frameRenderer";
+import { RgbaBuffer, KeyedFrame, getFrameCacheKey, getFrameSeeds, getLocalRegion, getFrameTarget } from "./framePipeline";
+import { createFramePool, cropBitmap } from "./framePool";
+import { buildPalette } from "./palette";
+
+export interface CachedFrame extends KeyedFrame {
+  key: string; // See getFrameCacheKey
+  bitmap: ImageBitmap; // Keyed frame, ready to draw
+}
+
+export interface FrameCache {
+  /**
+   * Keyed frames for `sources` by original index, reusing every frame whose key is
+   * unchanged. Resolves to null when a newer update superseded this one.
+   */
+  update: (
+    image: HTMLImageElement,
+    config: SpriteConfig,
+    sources: FrameSource[],
+    onProgress: (done: number, total: number) => void
+  ) => Promise<Map<number, CachedFrame> | null>;
+  /**
+   * Color-reduced bitmaps for the GIF preview, rendered on the output canvas the way the
+   * export renders them, by placement index in `layout` (null = superseded)
+   */
+  quantize: (
+    frames: Map<number, CachedFrame>,
+    layout: FrameLayout,
+    config: SpriteConfig,
+    options: PaletteOptions
+  ) => Promise<Map<number, ImageBitmap> | null>;
+  dispose: () => void;
+}
+
+/**
+ * Dropped bitmaps are closed two completed updates later: by then the player has
+ * switched to a result that doesn't draw them.
+ */
+const createRetirement = () => {
+  let retired: ImageBitmap[] = [];
+  let expiring: ImageBitmap[] = [];
+  return {
+    add: (bitmap: ImageBitmap) => {
+      retired.push(bitmap);
+    },
+    completed: () => {
+      expiring.forEach(bitmap => bitmap.close());
+      expiring = retired;
+      retired = [];
+    },
+    closeAll: () => {
+      [...expiring, ...retired].forEach(bitmap => bitmap.close());
+      expiring = [];
+      retired = [];
+    },
+  };
+};
+
+/**
+ * Processed preview frames stored as ImageBitmaps, so playback only blits. A config
+ * change reprocesses only the frames whose key changed, in the frame worker pool.
+ */
+export const createFrameCache = (): FrameCache => {
+  const pool = createFramePool();
+  let image: HTMLImageElement | null = null;
+  const entries = new Map<string, CachedFrame>();
+  const pending = new Map<string, Promise<CachedFrame>>();
+  const quantized = new Map<string, ImageBitmap>();
+  const retiredFrames = createRetirement();
+  const retiredQuantized = createRetirement();
+  let generation = 0;
+  let quantizeGeneration = 0;
+  let nextId = 0;
+
+  const pruneFrames = (keep: Set<string>) => entries.forEach((entry, key) => {
+    if (keep.has(key)) return;
+    retiredFrames.add(entry.bitmap);
+    entries.delete(key);
+  });
+
+  const pruneQuantized = (keep: Set<string>) => quantized.forEach((bitmap, key) => {
+    if (keep.has(key)) return;
+    retiredQuantized.add(bitmap);
+    quantized.delete(key);
+  });
+
+  const process = (source: FrameSource, key: string, settings: KeySettings, useFloodFill: boolean) => {
+    const existing = pending.get(key);
+    if (existing) return existing;
+
+    const sheet = image!;
+    const promise = (async (): Promise<CachedFrame> => {
+      const bitmap = await cropBitmap(sheet, source);
+      const seeds = getFrameSeeds(settings.seeds, source);
+      const message = await pool.run({ type: 'key', id: nextId++, bitmap, settings, useFloodFill, seeds, preview: true }, [bitmap]);
+      if (message.type !== 'keyed' || !message.bitmap) throw new Error("帧处理失败");
+      const entry = { ...message.frame, key, bitmap: message.bitmap };
+      // The sheet may have been replaced meanwhile
+      if (sheet === image) entries.set(key, entry);
+      else retiredFrames.add(entry.bitmap);
+      return entry;
+    })().finally(() => {
+      if (pending.get(key) === promise) pending.delete(key);
+    });
+    pending.set(key, promise);
+    return promise;
+  };
+
+  return {
+    update: async (nextImage, config, sources, onProgress) => {
+      const current = ++generation;
+      if (nextImage !== image) {
+        pruneFrames(new Set());
+        pruneQuantized(new Set());
+        pending.clear();
+        image = nextImage;
+      }
+
+      const settings = getKeySettings(config, 'alpha');
+      const wanted = new Map<number, { source: FrameSource; key: string }>();
+      for (const source of sources) {
+        if (!wanted.has(source.originalIndex)) {
+          wanted.set(source.originalIndex, { source, key: getFrameCacheKey(config, source) });
+        }
+      }
+
+      const frames = new Map<number, CachedFrame>();
+      const missing = [...wanted].filter(([index, { key }]) => {
+        const entry = entries.get(key);
+        if (entry) frames.set(index, entry);
+        return !entry;
+      });
+      let done = frames.size;
+      onProgress(done, wanted.size);
+
+      // Each worker takes one frame at a time, so a newer update stops this one between frames
+      const work = async () => {
+        while (missing.length > 0 && current === generation) {
+          const [index, { source, key }] = missing.shift()!;
+          frames.set(index, await process(source, key, settings, config.useFloodFill));
+          if (current === generation) onProgress(++done, wanted.size);
+        }
+      };
+      await Promise.all(Array.from({ length: pool.size }, work));
+      if (current !== generation) return null;
+
+      pruneFrames(new Set([...wanted.values()].map(({ key }) => key)));
+      retiredFrames.completed();
+      return frames;
+    },
+
+    quantize: async (frames, layout, config, options) => {
+      const current = ++quantizeGeneration;
+      // Rendered like the GIF export: whole output canvas, key color in transparent pixels,
+      // white under the frame when transparency is off
+      const { keyColor } = getKeySettings(config, 'color');
+      const jobs = layout.placements.map(placement => {
+        const frame = frames.get(placement.source.originalIndex) ?? null;
+        const region = getLocalRegion(placement);
+        const target = getFrameTarget(layout, placement, !config.transparent);
+        return { frame, region, target, key: JSON.stringify([frame?.key ?? null, region, target, keyColor]) };
+      });
+      // A shared palette comes from all rendered frames, so it changes with any of them
+      const paletteKey = JSON.stringify([options, options.mode === 'auto' ? null : jobs.map(job => job.key)]);
+      const keys = jobs.map(job => `${job.key}|${paletteKey}`);
+
+      const missing = jobs.map((_, i) => i).filter(i => !quantized.has(keys[i]));
+      const toRender = options.mode === 'auto' || missing.length === 0 ? missing : jobs.map((_, i) => i);
+      const rendered = new Map<number, RgbaBuffer>();
+      await Promise.all(toRender.map(async i => {
+        const { frame, region, target } = jobs[i];
+        const message = await pool.run({ type: 'render', id: nextId++, frame: frame?.pixels ?? null, region, target, keyColor });
+        if (message.type !== 'rendered') throw new Error("帧处理失败");
+        rendered.set(i, message.imageData);
+      }));
+      if (current !== quantizeGeneration) return null;
+      const shared = options.mode === 'auto' || toRender.length === 0
+        ? null
+        : buildPalette(toRender.map(i => rendered.get(i)!), options, keyColor);
+
+      // Placements drawn the same way share one bitmap
+      const running = new Map<string, Promise<ImageBitmap>>();
+      const bitmaps = await Promise.all(keys.map(async (key, i) => {
+        const cached = quantized.get(key);
+        if (cached) return [i, cached] as const;
+        let promise = running.get(key);
+        if (!promise) {
+          promise = (async () => {
+            const frame = rendered.get(i)!;
+            const message = await pool.run(
+              { type: 'quantize', id: nextId++, frame, palette: shared, options, keyColor },
+              [frame.data.buffer as ArrayBuffer]
+            );
+            if (message.type !== 'quantized') throw new Error("帧处理失败");
+            // Skip frames an update (or a new sheet) has dropped meanwhile
+            const source = jobs[i].frame;
+            if (!source || entries.get(source.key) === source) quantized.set(key, message.bitmap);
+            else retiredQuantized.add(message.bitmap);
+            return message.bitmap;
+          })();
+          running.set(key, promise);
+        }
+        return [i, await promise] as const;
+      }));
+      if (current !== quantizeGeneration) return null;
+
+      pruneQuantized(new Set(keys));
+      retiredQuantized.completed();
+      return new Map(bitmaps);
+    },
+
+    dispose: () => {
+      pool.dispose();
+      pruneFrames(new Set());
+      pruneQuantized(new Set());
+      retiredFrames.closeAll();
+      retiredQuantized.closeAll();
+    },
+  };
+};
@@ -0,0 +1,191 @@
+import { SpriteConfig, ImageDimensions, FrameRect, FrameOffset, ReadOrder } from "../types";
+
+export interface FrameCoordinate {
+  r: number;
+  c: number;
+  originalIndex: number;
+}
+
+/**
+ * A frame of the animation together with the source rectangle it is read from.
+ */
+export interface FrameSource extends FrameCoordinate, FrameRect {}
+
+export interface OrderedFrameRect extends FrameRect {
+  r: number; // Line (row of sprites, or column in column-major order)
+  c: number; // Position within the line
+}
+
+export interface GridGeometry {
+  frameWidthRaw: number; // Cell size, excluding spacing
+  frameHeightRaw: number;
+  stepX: number; // Distance between the origins of neighbouring cells
+  stepY: number;
+  cropWidth: number;
+  cropHeight: number;
+}
+
+/**
+ * Size of one grid cell and of the cropped area inside it, in source pixels.
+ * Without an explicit cell size, the sheet minus its margins and gutters is divided evenly.
+ */
+export const getGridGeometry = (config: SpriteConfig, dimensions: ImageDimensions): GridGeometry => {
+  const { rows, cols, crop, offsetX, offsetY, spacingX, spacingY, cellWidth, cellHeight } = config;
+
+  const frameWidthRaw = cellWidth ?? (dimensions.width - offsetX * 2 - spacingX * (cols - 1)) / cols;
+  const frameHeightRaw = cellHeight ?? (dimensions.height - offsetY * 2 - spacingY * (rows - 1)) / rows;
+
+  if (frameWidthRaw <= 0 || frameHeightRaw <= 0) {
+    throw new Error("网格边距或间距过大，导致单元格宽度或高度为0或负数");
+  }
+
+  // Initial crop size
+  const cropWidth = frameWidthRaw - crop.left - crop.right;
+  const cropHeight = frameHeightRaw - crop.top - crop.bottom;
+
+  if (cropWidth <= 0 || cropHeight <= 0) {
+    throw new Error("裁剪数值过大，导致画面宽度或高度为0或负数");
+  }
+
+  return {
+    frameWidthRaw,
+    frameHeightRaw,
+    stepX: frameWidthRaw + spacingX,
+    stepY: frameHeightRaw + spacingY,
+    cropWidth,
+    cropHeight,
+  };
+};
+
+/**
+ * Top-left corner of the grid cell at (r, c), before cropping.
+ */
+export const getCellOrigin = (config: SpriteConfig, geometry: GridGeometry, r: number, c: number) => ({
+  x: config.offsetX + c * geometry.stepX,
+  y: config.offsetY + r * geometry.stepY,
+});
+
+/**
+ * Returns the grid cells that make up the animation, in playback order.
+ * Only indices that are < totalFrames AND NOT in excludedFrames are kept.
+ */
+export const getValidFrameCoordinates = (config: SpriteConfig): FrameCoordinate[] => {
+  const { rows, cols, totalFrames, excludedFrames, readOrder = 'row-major' } = config;
+  const validFrameCoordinates: FrameCoordinate[] = [];
+
+  // Generate all possible coordinates first in order
+  const tempCoords: { r: number; c: number; index: number }[] = [];
+  if (readOrder === 'column-major') {
+    for (let c = 0; c < cols; c++) {
+      for (let r = 0; r < rows; r++) {
+        tempCoords.push({ r, c, index: c * rows + r });
+      }
+    }
+  } else {
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        tempCoords.push({ r, c, index: r * cols + c });
+      }
+    }
+  }
+
+  // Filter
+  for (const item of tempCoords) {
+    if (item.index < totalFrames && !excludedFrames.includes(item.index)) {
+      validFrameCoordinates.push({ r: item.r, c: item.c, originalIndex: item.index });
+    }
+  }
+
+  return validFrameCoordinates;
+};
+
+/**
+ * Orders free-layout sprites. Row-major groups sprites into rows by vertical overlap
+ * and orders the rows by their baseline (bottom edge); column-major does the same on the
+ * other axis. Within a line, sprites are read left to right (or top to bottom).
+ */
+export const orderFreeFrames = (rects: FrameRect[], readOrder: ReadOrder): OrderedFrameRect[] => {
+  const byRows = readOrder !== 'column-major';
+  const start = (rect: FrameRect) => byRows ? rect.y : rect.x;
+  const size = (rect: FrameRect) => byRows ? rect.height : rect.width;
+  const cross = (rect: FrameRect) => byRows ? rect.x : rect.y;
+
+  const lines: { start: number; end: number; items: FrameRect[] }[] = [];
+  const sorted = [...rects].sort((a, b) => (start(a) + size(a)) - (start(b) + size(b)));
+
+  for (const rect of sorted) {
+    const rectStart = start(rect);
+    const rectEnd = rectStart + size(rect);
+    const line = lines.find(l => {
+      const overlap = Math.min(l.end, rectEnd) - Math.max(l.start, rectStart);
+      return overlap >= 0.5 * Math.min(size(rect), l.end - l.start);
+    });
+    if (line) {
+      line.items.push(rect);
+      line.start = Math.min(line.start, rectStart);
+      line.end = Math.max(line.end, rectEnd);
+    } else {
+      lines.push({ start: rectStart, end: rectEnd, items: [rect] });
+    }
+  }
+
+  lines.sort((a, b) => byRows ? a.end - b.end : a.start - b.start);
+
+  return lines.flatMap((line, lineIndex) =>
+    [...line.items]
+      .sort((a, b) => cross(a) - cross(b))
+      .map((rect, position) => ({
+        ...rect,
+        r: byRows ? lineIndex : position,
+        c: byRows ? position : lineIndex,
+      }))
+  );
+};
+
+/**
+ * Every frame of the sheet (grid cells or free-layout sprites) in read order,
+ * indexed by original frame index, ignoring totalFrames/excludedFrames.
+ */
+export const getAllFrameSources = (config: SpriteConfig, dimensions: ImageDimensions): FrameSource[] => {
+  if (config.layoutMode === 'free') {
+    return orderFreeFrames(config.freeFrames, config.readOrder)
+      .map((rect, index) => ({ ...rect, originalIndex: index }));
+  }
+
+  const geometry = getGridGeometry(config, dimensions);
+  const allCells = { ...config, totalFrames: config.rows * config.cols, excludedFrames: [] };
+  return getValidFrameCoordinates(allCells).map(coord => {
+    const origin = getCellOrigin(config, geometry, coord.r, coord.c);
+    return {
+      ...coord,
+      x: origin.x + config.crop.left,
+      y: origin.y + config.crop.top,
+      width: geometry.cropWidth,
+      height: geometry.cropHeight,
+    };
+  });
+};
+
+/**
+ * Resolves the frames of the animation (in playback order) to source rectangles.
+ * An explicit sequence wins; otherwise the read order filtered by totalFrames/excludedFrames.
+ */
+export const getFrameSources = (config: SpriteConfig, dimensions: ImageDimensions): FrameSource[] => {
+  const { totalFrames, excludedFrames, sequence } = config;
+  const allSources = getAllFrameSources(config, dimensions);
+
+  if (sequence.length > 0) {
+    // Indices past the end (e.g. after shrinking the grid) are skipped
+    return sequence
+      .filter(index => index < allSources.length)
+      .map(index => allSources[index]);
+  }
+
+  return allSources.filter(frame => frame.originalIndex < totalFrames && !excludedFrames.includes(frame.originalIndex));
+};
+
+/**
+ * Manual offset of a frame (source pixels), applied after alignment.
+ */
+export const getFrameOffset = (config: SpriteConfig, originalIndex: number): FrameOffset =>
+  config.frameOffsets[originalIndex] ?? { dx: 0, dy: 0 };
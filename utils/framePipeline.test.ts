@@ -0,0 +1,443 @@
+import { describe, it, expect } from "vitest";
+import { SpriteConfig } from "../types";
+import { FrameSource } from "./frameLayout";
+import { BoundingBox, computeLayout, getKeySettings } from "./frameRenderer";
+import { RgbaBuffer, FrameTarget, createRgbaBuffer, cropRgba, keyFrame, renderFrame } from "./framePipeline";
+
+type Rgba = [number, number, number, number];
+
+const MAGENTA: Rgba = [255, 0, 255, 255];
+const GREEN: Rgba = [0, 255, 0, 255];
+const BLUE: Rgba = [0, 0, 255, 255];
+const RED: Rgba = [255, 0, 0, 255];
+const CLEAR: Rgba = [0, 0, 0, 0];
+
+const createConfig = (overrides: Partial<SpriteConfig> = {}): SpriteConfig => ({
+  layoutMode: 'grid',
+  freeFrames: [],
+  rows: 1,
+  cols: 1,
+  offsetX: 0,
+  offsetY: 0,
+  spacingX: 0,
+  spacingY: 0,
+  cellWidth: null,
+  cellHeight: null,
+  totalFrames: 1,
+  excludedFrames: [],
+  sequence: [],
+  fps: 10,
+  frameDurations: {},
+  playbackMode: 'forward',
+  loopCount: 0,
+  frameOffsets: {},
+  pivotPreset: 'bottom-center',
+  pivotPoint: { x: 0, y: 0 },
+  framePivots: {},
+  scale: 1,
+  transparent: null,
+  tolerance: 10,
+  extraKeyColors: [],
+  colorMetric: 'rgb',
+  useFloodFill: true,
+  floodSeeds: [],
+  edgeSoftness: 0,
+  despill: false,
+  defringe: 0,
+  autoAlign: false,
+  alignMode: 'center',
+  trimPadding: 0,
+  readOrder: 'row-major',
+  clips: [],
+  crop: { top: 0, bottom: 0, left: 0, right: 0 },
+  maxResolution1024: false,
+  ...overrides,
+});
+
+const fill = (width: number, height: number, color: Rgba): RgbaBuffer => {
+  const buffer = createRgbaBuffer(width, height);
+  for (let p = 0; p < buffer.data.length; p += 4) buffer.data.set(color, p);
+  return buffer;
+};
+
+const paint = (buffer: RgbaBuffer, x: number, y: number, width: number, height: number, color: Rgba) => {
+  for (let py = y; py < y + height; py++) {
+    for (let px = x; px < x + width; px++) buffer.data.set(color, (py * buffer.width + px) * 4);
+  }
+  return buffer;
+};
+
+const pixel = (buffer: RgbaBuffer, x: number, y: number): Rgba => {
+  const p = (y * buffer.width + x) * 4;
+  return [buffer.data[p], buffer.data[p + 1], buffer.data[p + 2], buffer.data[p + 3]];
+};
+
+const row = (buffer: RgbaBuffer, y = 0) => Array.from({ length: buffer.width }, (_, x) => pixel(buffer, x, y));
+
+// Sheet where every pixel is unique: r = x, g = y
+const createGradientSheet = (width: number, height: number) => {
+  const sheet = createRgbaBuffer(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) sheet.data.set([x, y, 7, 255], (y * width + x) * 4);
+  }
+  return sheet;
+};
+
+describe("cropRgba", () => {
+  const sheet = createGradientSheet(8, 6);
+
+  it("copies a rect inside the sheet", () => {
+    const frame = cropRgba(sheet, { x: 2, y: 1, width: 3, height: 2 });
+    expect(frame.width).toBe(3);
+    expect(frame.height).toBe(2);
+    expect(row(frame, 0)).toEqual([[2, 1, 7, 255], [3, 1, 7, 255], [4, 1, 7, 255]]);
+    expect(row(frame, 1)).toEqual([[2, 2, 7, 255], [3, 2, 7, 255], [4, 2, 7, 255]]);
+  });
+
+  it("snaps fractional rects to whole pixels", () => {
+    const frame = cropRgba(sheet, { x: 1.7, y: 0.2, width: 2.9, height: 1.5 });
+    expect([frame.width, frame.height]).toEqual([2, 1]);
+    expect(row(frame)).toEqual([[1, 0, 7, 255], [2, 0, 7, 255]]);
+  });
+
+  it("leaves the part outside the sheet transparent", () => {
+    const frame = cropRgba(sheet, { x: -1, y: -1, width: 3, height: 3 });
+    expect(row(frame, 0)).toEqual([CLEAR, CLEAR, CLEAR]);
+    expect(row(frame, 1)).toEqual([CLEAR, [0, 0, 7, 255], [1, 0, 7, 255]]);
+    expect(row(frame, 2)).toEqual([CLEAR, [0, 1, 7, 255], [1, 1, 7, 255]]);
+
+    const corner = cropRgba(sheet, { x: 6, y: 5, width: 4, height: 2 });
+    expect(row(corner, 0)).toEqual([[6, 5, 7, 255], [7, 5, 7, 255], CLEAR, CLEAR]);
+    expect(row(corner, 1)).toEqual([CLEAR, CLEAR, CLEAR, CLEAR]);
+  });
+
+  it("returns an empty frame for rects entirely outside the sheet", () => {
+    for (const rect of [{ x: 20, y: 0, width: 2, height: 2 }, { x: -5, y: 0, width: 2, height: 2 }, { x: 0, y: 9, width: 2, height: 2 }]) {
+      const frame = cropRgba(sheet, rect);
+      expect([frame.width, frame.height]).toEqual([2, 2]);
+      expect(frame.data.every(value => value === 0)).toBe(true);
+    }
+  });
+
+  it("keeps at least one pixel for empty rects", () => {
+    const frame = cropRgba(sheet, { x: 3, y: 3, width: 0.5, height: 0 });
+    expect([frame.width, frame.height]).toEqual([1, 1]);
+    expect(pixel(frame, 0, 0)).toEqual([3, 3, 7, 255]);
+  });
+});
+
+describe("keyFrame", () => {
+  const magentaKey = (overrides: Partial<SpriteConfig> = {}) =>
+    getKeySettings(createConfig({ transparent: '#ff00ff', ...overrides }), 'alpha');
+
+  // Blue ring with a magenta hole in the middle, on magenta
+  const createRing = () => {
+    const frame = fill(7, 7, MAGENTA);
+    paint(frame, 1, 1, 5, 5, BLUE);
+    return paint(frame, 3, 3, 1, 1, MAGENTA);
+  };
+
+  it("removes the background and measures the content", () => {
+    const frame = paint(fill(6, 6, MAGENTA), 2, 1, 2, 3, BLUE);
+    const { pixels, bbox } = keyFrame(frame, magentaKey(), false);
+    expect(pixel(pixels, 0, 0)).toEqual(CLEAR);
+    expect(pixel(pixels, 2, 1)).toEqual(BLUE);
+    expect(bbox).toEqual({ minX: 2, minY: 1, maxX: 3, maxY: 3, width: 2, height: 3 });
+  });
+
+  it("keys colors within the tolerance only", () => {
+    const frame = fill(3, 1, MAGENTA);
+    frame.data.set([245, 10, 245, 255], 4); // ~3.9% away
+    frame.data.set([200, 40, 200, 255], 8); // ~19% away
+    const { pixels } = keyFrame(frame, magentaKey({ tolerance: 10 }), false);
+    expect(row(pixels)).toEqual([CLEAR, CLEAR, [200, 40, 200, 255]]);
+  });
+
+  it("returns a null bbox when the whole frame is background", () => {
+    expect(keyFrame(fill(4, 4, MAGENTA), magentaKey(), true).bbox).toBeNull();
+  });
+
+  it("leaves the frame untouched without a background color", () => {
+    const frame = paint(fill(4, 4, MAGENTA), 1, 1, 1, 1, BLUE);
+    const { pixels, bbox } = keyFrame(frame, getKeySettings(createConfig(), 'alpha'), true);
+    expect(pixel(pixels, 0, 0)).toEqual(MAGENTA);
+    expect(bbox).toEqual({ minX: 0, minY: 0, maxX: 3, maxY: 3, width: 4, height: 4 });
+  });
+
+  it("flood fill keeps background enclosed by the sprite", () => {
+    const { pixels } = keyFrame(createRing(), magentaKey(), true);
+    expect(pixel(pixels, 0, 0)).toEqual(CLEAR);
+    expect(pixel(pixels, 3, 3)).toEqual(MAGENTA);
+  });
+
+  it("without flood fill removes every matching pixel", () => {
+    const { pixels } = keyFrame(createRing(), magentaKey(), false);
+    expect(pixel(pixels, 0, 0)).toEqual(CLEAR);
+    expect(pixel(pixels, 3, 3)).toEqual(CLEAR);
+  });
+
+  it("flood fills from seeds as well as from the edges", () => {
+    const { pixels } = keyFrame(createRing(), magentaKey(), true, [{ x: 3, y: 3 }]);
+    expect(pixel(pixels, 3, 3)).toEqual(CLEAR);
+    expect(pixel(pixels, 2, 2)).toEqual(BLUE);
+
+    // Seeds outside the frame or on content are ignored
+    const ignored = keyFrame(createRing(), magentaKey(), true, [{ x: -1, y: 3 }, { x: 9, y: 9 }, { x: 2, y: 2 }]);
+    expect(pixel(ignored.pixels, 3, 3)).toEqual(MAGENTA);
+    expect(pixel(ignored.pixels, 2, 2)).toEqual(BLUE);
+  });
+
+  it("keys extra background colors", () => {
+    const frame = paint(paint(fill(4, 1, MAGENTA), 1, 0, 1, 1, GREEN), 2, 0, 1, 1, BLUE);
+    const settings = magentaKey({ extraKeyColors: [{ color: '#00ff00', tolerance: 5 }] });
+    expect(row(keyFrame(frame, settings, false).pixels)).toEqual([CLEAR, CLEAR, BLUE, CLEAR]);
+  });
+
+  describe("soft edges", () => {
+    // Half green background, half red sprite: ~41% away from green
+    const MIXED: Rgba = [128, 128, 0, 255];
+    const greenKey = (overrides: Partial<SpriteConfig> = {}) =>
+      getKeySettings(createConfig({ transparent: '#00ff00', tolerance: 10, ...overrides }), 'alpha');
+
+    it("gives pixels in the soft band partial alpha and unmixes the background", () => {
+      const frame = paint(fill(3, 1, GREEN), 1, 0, 1, 1, MIXED);
+      const [r, g, b, a] = pixel(keyFrame(frame, greenKey({ edgeSoftness: 50 }), false).pixels, 1, 0);
+      // keep = (40.8 - 10) / 50
+      expect(a).toBeGreaterThan(140);
+      expect(a).toBeLessThan(170);
+      expect(r).toBeGreaterThan(190);
+      expect(g).toBeLessThan(70);
+      expect(b).toBe(0);
+    });
+
+    it("keeps hard edges without softness", () => {
+      const frame = paint(fill(3, 1, GREEN), 1, 0, 1, 1, MIXED);
+      expect(pixel(keyFrame(frame, greenKey(), false).pixels, 1, 0)).toEqual(MIXED);
+    });
+
+    it("with flood fill only softens pixels touching the removed background", () => {
+      const frame = paint(fill(7, 7, GREEN), 1, 1, 5, 5, RED);
+      paint(frame, 3, 3, 1, 1, MIXED); // Enclosed by the sprite
+      paint(frame, 1, 3, 1, 1, MIXED); // On the sprite edge
+      const { pixels } = keyFrame(frame, greenKey({ edgeSoftness: 50 }), true);
+      expect(pixel(pixels, 3, 3)).toEqual(MIXED);
+      expect(pixel(pixels, 1, 3)[3]).toBeLessThan(255);
+      expect(pixel(pixels, 2, 2)).toEqual(RED);
+    });
+
+    it("clears pixels that end up with no alpha", () => {
+      const frame = paint(fill(3, 1, GREEN), 1, 0, 1, 1, [20, 235, 0, 255]); // ~6.404% away
+      const { pixels } = keyFrame(frame, greenKey({ tolerance: 6.4, edgeSoftness: 10 }), false);
+      expect(pixel(pixels, 1, 0)).toEqual(CLEAR);
+    });
+  });
+
+  describe("despill and defringe", () => {
+    // Green-tinted sprite right of a green background column
+    const SPILL: Rgba = [100, 160, 100, 255];
+    const createSpilled = () => paint(fill(6, 3, GREEN), 1, 0, 5, 3, SPILL);
+    const greenKey = (overrides: Partial<SpriteConfig>) =>
+      getKeySettings(createConfig({ transparent: '#00ff00', ...overrides }), 'alpha');
+
+    it("takes the background hue out of the pixels near the edge", () => {
+      const { pixels } = keyFrame(createSpilled(), greenKey({ despill: true }), true);
+      for (const x of [1, 2]) {
+        const [r, g, b, a] = pixel(pixels, x, 1);
+        // Projected off the green hue axis: gray at the same brightness
+        expect(Math.abs(r - 120)).toBeLessThanOrEqual(1);
+        expect(Math.abs(g - 120)).toBeLessThanOrEqual(1);
+        expect(Math.abs(b - 120)).toBeLessThanOrEqual(1);
+        expect(a).toBe(255);
+      }
+      expect(pixel(pixels, 3, 1)).toEqual(SPILL);
+    });
+
+    it("leaves pixels alone without despill", () => {
+      const { pixels } = keyFrame(createSpilled(), greenKey({}), true);
+      expect(pixel(pixels, 1, 1)).toEqual(SPILL);
+    });
+
+    it("does not despill against a gray background", () => {
+      const frame = paint(fill(4, 1, [128, 128, 128, 255]), 1, 0, 3, 1, SPILL);
+      const settings = getKeySettings(createConfig({ transparent: '#808080', despill: true }), 'alpha');
+      expect(pixel(keyFrame(frame, settings, true).pixels, 1, 0)).toEqual(SPILL);
+    });
+
+    it("erodes the content edge by the defringe width", () => {
+      const { pixels, bbox } = keyFrame(createSpilled(), greenKey({ defringe: 1 }), true);
+      expect(pixel(pixels, 1, 1)).toEqual(CLEAR);
+      expect(pixel(pixels, 2, 1)).toEqual(SPILL);
+      expect(bbox?.minX).toBe(2);
+    });
+
+    it("despills the new edge after defringing", () => {
+      const { pixels } = keyFrame(createSpilled(), greenKey({ defringe: 1, despill: true }), true);
+      expect(pixel(pixels, 1, 1)).toEqual(CLEAR);
+      expect(pixel(pixels, 3, 1)[1]).toBeLessThan(SPILL[1]);
+      expect(pixel(pixels, 4, 1)).toEqual(SPILL);
+    });
+  });
+});
+
+describe("renderFrame", () => {
+  const target = (overrides: Partial<FrameTarget> = {}): FrameTarget => ({
+    canvasWidth: 4, canvasHeight: 1,
+    destX: 0, destY: 0, destWidth: 4, destHeight: 1,
+    outputWidth: 4, outputHeight: 1,
+    fillWhite: false,
+    ...overrides,
+  });
+
+  it("fills the canvas white only when asked", () => {
+    expect(row(renderFrame(null, null, target({ fillWhite: true }), null))).toEqual(Array(4).fill([255, 255, 255, 255]));
+    expect(row(renderFrame(null, null, target(), null))).toEqual(Array(4).fill(CLEAR));
+  });
+
+  it("draws the region scaled at the destination", () => {
+    const frame = paint(paint(fill(4, 1, MAGENTA), 1, 0, 1, 1, RED), 2, 0, 1, 1, BLUE);
+    const out = renderFrame(frame, { x: 1, y: 0, width: 2, height: 1 }, target({
+      canvasWidth: 6, destX: 1, destWidth: 4, outputWidth: 6,
+    }), null);
+    expect(row(out)).toEqual([CLEAR, RED, RED, BLUE, BLUE, CLEAR]);
+  });
+
+  it("clips regions drawn past the canvas edge", () => {
+    const frame = paint(fill(2, 1, RED), 1, 0, 1, 1, BLUE);
+    const out = renderFrame(frame, { x: 0, y: 0, width: 2, height: 1 }, target({ destX: 3, destWidth: 2 }), null);
+    expect(row(out)).toEqual([CLEAR, CLEAR, CLEAR, RED]);
+  });
+
+  it("blends partial alpha over the white background", () => {
+    const frame = fill(1, 1, [0, 0, 0, 128]);
+    const out = renderFrame(frame, { x: 0, y: 0, width: 1, height: 1 }, target({ fillWhite: true, destWidth: 1 }), null);
+    expect(pixel(out, 0, 0)).toEqual([127, 127, 127, 255]);
+    expect(pixel(out, 1, 0)).toEqual([255, 255, 255, 255]);
+  });
+
+  it("writes the key color into transparent pixels only", () => {
+    const frame = fill(1, 1, [10, 20, 30, 255]);
+    const out = renderFrame(frame, { x: 0, y: 0, width: 1, height: 1 }, target({ destX: 1, destWidth: 1 }), { r: 255, g: 0, b: 255 });
+    expect(row(out)).toEqual([MAGENTA, [10, 20, 30, 255], MAGENTA, MAGENTA]);
+  });
+
+  describe("max resolution resize", () => {
+    const stripes = () => {
+      const frame = fill(4, 1, RED);
+      return paint(paint(frame, 1, 0, 1, 1, BLUE), 3, 0, 1, 1, BLUE);
+    };
+    const halve = target({ outputWidth: 2 });
+
+    it("averages pixels when there is no key color", () => {
+      const out = renderFrame(stripes(), { x: 0, y: 0, width: 4, height: 1 }, halve, null);
+      expect(row(out)).toEqual([[128, 0, 128, 255], [128, 0, 128, 255]]);
+    });
+
+    it("weights the average by alpha", () => {
+      const frame = paint(fill(2, 1, RED), 1, 0, 1, 1, CLEAR);
+      const out = renderFrame(frame, { x: 0, y: 0, width: 2, height: 1 }, target({ canvasWidth: 2, destWidth: 2, outputWidth: 1 }), null);
+      expect(pixel(out, 0, 0)).toEqual([255, 0, 0, 128]);
+    });
+
+    it("samples the nearest pixel with a key color, so no halo mixes with it", () => {
+      const key = { r: 0, g: 255, b: 0 };
+      const out = renderFrame(stripes(), { x: 0, y: 0, width: 4, height: 1 }, halve, key);
+      expect(row(out)).toEqual([BLUE, BLUE]);
+
+      const edge = paint(fill(2, 1, RED), 0, 0, 1, 1, CLEAR);
+      const keyed = renderFrame(edge, { x: 0, y: 0, width: 2, height: 1 }, target({ canvasWidth: 2, destWidth: 2, outputWidth: 1 }), key);
+      expect(pixel(keyed, 0, 0)).toEqual(RED);
+    });
+  });
+});
+
+describe("computeLayout", () => {
+  const sources: FrameSource[] = [
+    { r: 0, c: 0, originalIndex: 0, x: 0, y: 0, width: 10, height: 10 },
+    { r: 0, c: 1, originalIndex: 1, x: 10, y: 0, width: 10, height: 10 },
+  ];
+  const bbox = (minX: number, minY: number, width: number, height: number): BoundingBox =>
+    ({ minX, minY, maxX: minX + width - 1, maxY: minY + height - 1, width, height });
+  const bboxes = new Map([[0, bbox(2, 1, 4, 6)], [1, bbox(4, 3, 5, 4)]]);
+
+  const layout = (overrides: Partial<SpriteConfig>, frames = sources, frameBBoxes = bboxes) =>
+    computeLayout(createConfig({ autoAlign: true, ...overrides }), frames, frameBBoxes);
+  const destinations = (result: ReturnType<typeof computeLayout>) =>
+    result.placements.map(({ destX, destY, destWidth, destHeight }) => [destX, destY, destWidth, destHeight]);
+
+  it("draws whole frames without auto align, whatever the align mode", () => {
+    for (const alignMode of ['center', 'bottom', 'pivot'] as const) {
+      const result = layout({ autoAlign: false, alignMode });
+      expect([result.logicalWidth, result.logicalHeight]).toEqual([10, 10]);
+      expect(result.placements[1].region).toEqual({ x: 10, y: 0, width: 10, height: 10 });
+      expect(destinations(result)).toEqual([[0, 0, 10, 10], [0, 0, 10, 10]]);
+    }
+  });
+
+  it("center: crops to the bbox and centers it on a canvas fitting the largest bbox", () => {
+    const result = layout({ alignMode: 'center' });
+    expect([result.logicalWidth, result.logicalHeight]).toEqual([7, 8]);
+    expect(result.placements[0].region).toEqual({ x: 2, y: 1, width: 4, height: 6 });
+    expect(result.placements[1].region).toEqual({ x: 14, y: 3, width: 5, height: 4 });
+    expect(destinations(result)).toEqual([[1, 1, 4, 6], [1, 2, 5, 4]]);
+  });
+
+  it("bottom: stands every bbox on the bottom edge", () => {
+    const result = layout({ alignMode: 'bottom' });
+    expect(destinations(result)).toEqual([[1, 2, 4, 6], [1, 4, 5, 4]]);
+  });
+
+  it("skips frames without content when aligning by bbox", () => {
+    const result = layout({ alignMode: 'center' }, sources, new Map([[0, bbox(2, 1, 4, 6)], [1, null]]));
+    expect(result.placements[1].region).toBeNull();
+  });
+
+  it("stabilize: keeps whole frames and applies the registered offsets", () => {
+    const result = layout({ alignMode: 'stabilize', frameOffsets: { 1: { dx: 2, dy: -1 } } });
+    expect([result.logicalWidth, result.logicalHeight]).toEqual([10, 10]);
+    expect(result.placements[1].region).toEqual({ x: 10, y: 0, width: 10, height: 10 });
+    expect(destinations(result)).toEqual([[0, 0, 10, 10], [2, -1, 10, 10]]);
+  });
+
+  it("pivot: lands every frame's pivot on one anchor", () => {
+    // Bottom-center pivots: (4, 7) and (6.5, 7)
+    const result = layout({ alignMode: 'pivot', pivotPreset: 'bottom-center' });
+    expect([result.logicalWidth, result.logicalHeight]).toEqual([7, 8]);
+    expect(destinations(result)).toEqual([[1, 1, 4, 6], [1, 3, 5, 4]]);
+    expect(result.placements.map(({ pivot }) => pivot.y)).toEqual([7, 7]);
+
+    const fixed = layout({ alignMode: 'pivot', pivotPreset: 'fixed', pivotPoint: { x: 5, y: 9 } });
+    const [a, b] = fixed.placements;
+    expect(a.pivot).toEqual(b.pivot);
+  });
+
+  it("union: crops every frame to the shared content rect plus padding", () => {
+    const result = layout({ alignMode: 'union', trimPadding: 1 });
+    // Union of the bboxes: x 2-8, y 1-6
+    expect([result.logicalWidth, result.logicalHeight]).toEqual([9, 8]);
+    expect(result.placements.map(({ region }) => region)).toEqual([
+      { x: 2, y: 1, width: 7, height: 6 },
+      { x: 12, y: 1, width: 7, height: 6 },
+    ]);
+    expect(destinations(result)).toEqual([[1, 1, 7, 6], [1, 1, 7, 6]]);
+  });
+
+  it("union: clamps the crop of sprites smaller than the union rect", () => {
+    const free: FrameSource[] = [
+      { r: 0, c: 0, originalIndex: 0, x: 0, y: 0, width: 10, height: 10 },
+      { r: 0, c: 1, originalIndex: 1, x: 20, y: 0, width: 4, height: 3 },
+      { r: 0, c: 2, originalIndex: 2, x: 30, y: 0, width: 1, height: 1 },
+    ];
+    const result = layout({ alignMode: 'union' }, free, new Map([[0, bbox(2, 1, 4, 6)], [1, bbox(2, 1, 2, 2)], [2, null]]));
+    expect(result.placements[1].region).toEqual({ x: 22, y: 1, width: 2, height: 2 });
+    expect(result.placements[2].region).toEqual({ x: 32, y: 1, width: 0, height: 0 });
+  });
+
+  it("scales the canvas and caps it at 1024px when asked", () => {
+    const scaled = layout({ alignMode: 'center', scale: 2 });
+    expect([scaled.logicalWidth, scaled.logicalHeight, scaled.outputWidth, scaled.outputHeight]).toEqual([14, 16, 14, 16]);
+    expect(destinations(scaled)[0]).toEqual([3, 2, 8, 12]);
+
+    const capped = layout({ autoAlign: false, scale: 256, maxResolution1024: true });
+    expect([capped.logicalWidth, capped.outputWidth, capped.outputHeight]).toEqual([2560, 1024, 1024]);
+  });
+});
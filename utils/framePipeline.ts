@@ -0,0 +1,305 @@
+import { SpriteConfig, FrameRect, PaletteOptions, SheetPoint } from "../types";
+import { FrameSource } from "./frameLayout";
+import {
+  RGB, BoundingBox, KeySettings, FrameLayout, FramePlacement,
+  applyChromaKey, refineEdges, getContentBoundingBox, getKeySettings, computeLayout,
+} from "./frameRenderer";
+
+/*
+ * The frame pipeline shared by the preview and every export. It works on plain RGBA
+ * buffers without canvas or DOM, so it runs the same on the main thread and in workers:
+ *
+ *   crop -> chroma key (to alpha) -> edge refine -> content bbox -> layout -> place + scale -> max resolution -> key color
+ */
+
+export interface RgbaBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export const createRgbaBuffer = (width: number, height: number): RgbaBuffer => ({
+  data: new Uint8ClampedArray(width * height * 4),
+  width,
+  height,
+});
+
+/**
+ * Copies a frame rect out of the sheet. Like an unsmoothed canvas, the rect snaps to
+ * whole pixels; pixels outside the sheet stay transparent.
+ */
+export const cropRgba = (sheet: RgbaBuffer, rect: FrameRect): RgbaBuffer => {
+  const left = Math.floor(rect.x);
+  const top = Math.floor(rect.y);
+  const out = createRgbaBuffer(Math.max(1, Math.floor(rect.width)), Math.max(1, Math.floor(rect.height)));
+
+  const x0 = Math.max(0, -left);
+  const x1 = Math.min(out.width, sheet.width - left);
+  if (x1 <= x0) return out;
+
+  for (let y = 0; y < out.height; y++) {
+    const sy = top + y;
+    if (sy < 0 || sy >= sheet.height) continue;
+    const start = (sy * sheet.width + left + x0) * 4;
+    out.data.set(sheet.data.subarray(start, start + (x1 - x0) * 4), (y * out.width + x0) * 4);
+  }
+  return out;
+};
+
+export interface KeyedFrame {
+  pixels: RgbaBuffer; // Frame with the background cleared to alpha 0
+  bbox: BoundingBox | null; // Content left after keying, frame-local px
+}
+
+/**
+ * Removes the background of one frame (in place, always to alpha, with soft edges) and
+ * measures the content that is left. Layout and rendered pixels both come from this one result.
+ */
+export const keyFrame = (
+  frame: RgbaBuffer,
+  settings: KeySettings,
+  useFloodFill: boolean,
+  seeds: SheetPoint[] = []
+): KeyedFrame => {
+  const { data, width, height } = frame;
+  if (settings.transparentRGB) {
+    applyChromaKey(data, width, height, { ...settings, keyColor: null }, useFloodFill, seeds);
+    refineEdges(data, width, height, settings, useFloodFill);
+  }
+  return { pixels: frame, bbox: getContentBoundingBox(data, width, height) };
+};
+
+/**
+ * The flood fill seeds that fall inside a frame rect, in frame-local px (the `seeds` of keyFrame).
+ */
+export const getFrameSeeds = (seeds: SheetPoint[], rect: FrameRect): SheetPoint[] => seeds
+  .map(({ x, y }) => ({ x: x - Math.floor(rect.x), y: y - Math.floor(rect.y) }))
+  .filter(({ x, y }) => x >= 0 && y >= 0 && x < Math.floor(rect.width) && y < Math.floor(rect.height));
+
+/**
+ * Everything a keyed frame depends on: its source rect and the keying settings.
+ * Frames with the same key can be reused across config changes.
+ */
+export const getFrameCacheKey = (config: SpriteConfig, source: FrameRect) => JSON.stringify([
+  source.x, source.y, source.width, source.height,
+  config.transparent, config.tolerance, config.extraKeyColors, config.colorMetric, config.useFloodFill, getFrameSeeds(config.floodSeeds, source),
+  config.edgeSoftness, config.despill, config.defringe,
+]);
+
+/**
+ * Crops and keys every distinct frame of the sheet, by original index.
+ */
+export const keyFrames = (
+  sheet: RgbaBuffer,
+  sources: FrameSource[],
+  settings: KeySettings,
+  useFloodFill: boolean
+): Map<number, KeyedFrame> => {
+  const frames = new Map<number, KeyedFrame>();
+  for (const source of sources) {
+    if (frames.has(source.originalIndex)) continue;
+    frames.set(
+      source.originalIndex,
+      keyFrame(cropRgba(sheet, source), settings, useFloodFill, getFrameSeeds(settings.seeds, source))
+    );
+  }
+  return frames;
+};
+
+export const getFrameBBoxes = (frames: Map<number, KeyedFrame>): Map<number, BoundingBox | null> =>
+  new Map([...frames].map(([index, frame]) => [index, frame.bbox]));
+
+export interface SheetAnalysis {
+  frames: Map<number, KeyedFrame>;
+  layout: FrameLayout;
+}
+
+/**
+ * The pipeline up to the layout: key every frame, then place them (see computeLayout).
+ */
+export const analyzeSheet = (sheet: RgbaBuffer, config: SpriteConfig, sources: FrameSource[]): SheetAnalysis => {
+  const frames = keyFrames(sheet, sources, getKeySettings(config, 'alpha'), config.useFloodFill);
+  return { frames, layout: computeLayout(config, sources, getFrameBBoxes(frames)) };
+};
+
+/**
+ * Part of the keyed frame a placement draws, in frame-local px (null = empty frame).
+ */
+export const getLocalRegion = ({ source, region }: FramePlacement): FrameRect | null =>
+  region ? { x: region.x - source.x, y: region.y - source.y, width: region.width, height: region.height } : null;
+
+/**
+ * Draws `rect` of `src` onto `dest` at (dx, dy, dw, dh): nearest neighbour, source-over,
+ * clipped to the destination.
+ */
+const drawScaled = (src: RgbaBuffer, rect: FrameRect, dest: RgbaBuffer, dx: number, dy: number, dw: number, dh: number) => {
+  if (dw <= 0 || dh <= 0) return;
+  const x0 = Math.max(0, dx);
+  const x1 = Math.min(dest.width, dx + dw);
+  const y0 = Math.max(0, dy);
+  const y1 = Math.min(dest.height, dy + dh);
+
+  for (let y = y0; y < y1; y++) {
+    const sy = Math.floor(rect.y + ((y - dy + 0.5) * rect.height) / dh);
+    if (sy < 0 || sy >= src.height) continue;
+    for (let x = x0; x < x1; x++) {
+      const sx = Math.floor(rect.x + ((x - dx + 0.5) * rect.width) / dw);
+      if (sx < 0 || sx >= src.width) continue;
+
+      const s = (sy * src.width + sx) * 4;
+      const d = (y * dest.width + x) * 4;
+      const sa = src.data[s + 3];
+      if (sa === 0) continue;
+
+      const da = dest.data[d + 3];
+      if (sa === 255 || da === 0) {
+        dest.data[d] = src.data[s];
+        dest.data[d + 1] = src.data[s + 1];
+        dest.data[d + 2] = src.data[s + 2];
+        dest.data[d + 3] = sa;
+        continue;
+      }
+
+      // Straight alpha source-over
+      const a = sa / 255;
+      const b = (da / 255) * (1 - a);
+      const outA = a + b;
+      for (let c = 0; c < 3; c++) {
+        dest.data[d + c] = Math.round((src.data[s + c] * a + dest.data[d + c] * b) / outA);
+      }
+      dest.data[d + 3] = Math.round(outA * 255);
+    }
+  }
+};
+
+/**
+ * Resamples a buffer to a smaller size: alpha-weighted area average when smoothing,
+ * else nearest neighbour.
+ */
+const resize = (src: RgbaBuffer, width: number, height: number, smooth: boolean): RgbaBuffer => {
+  const out = createRgbaBuffer(width, height);
+  if (!smooth) {
+    drawScaled(src, { x: 0, y: 0, width: src.width, height: src.height }, out, 0, 0, width, height);
+    return out;
+  }
+
+  const fx = src.width / width;
+  const fy = src.height / height;
+  for (let y = 0; y < height; y++) {
+    const sy0 = Math.floor(y * fy);
+    const sy1 = Math.min(src.height, Math.max(sy0 + 1, Math.floor((y + 1) * fy)));
+    for (let x = 0; x < width; x++) {
+      const sx0 = Math.floor(x * fx);
+      const sx1 = Math.min(src.width, Math.max(sx0 + 1, Math.floor((x + 1) * fx)));
+
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let sy = sy0; sy < sy1; sy++) {
+        for (let sx = sx0; sx < sx1; sx++) {
+          const s = (sy * src.width + sx) * 4;
+          const alpha = src.data[s + 3];
+          r += src.data[s] * alpha;
+          g += src.data[s + 1] * alpha;
+          b += src.data[s + 2] * alpha;
+          a += alpha;
+        }
+      }
+
+      const d = (y * width + x) * 4;
+      const count = (sy1 - sy0) * (sx1 - sx0);
+      if (a > 0) {
+        out.data[d] = Math.round(r / a);
+        out.data[d + 1] = Math.round(g / a);
+        out.data[d + 2] = Math.round(b / a);
+      }
+      out.data[d + 3] = Math.round(a / count);
+    }
+  }
+  return out;
+};
+
+/** Where a frame region is drawn: logical canvas, dest rect on it, and the final output size */
+export interface FrameTarget {
+  canvasWidth: number;
+  canvasHeight: number;
+  destX: number;
+  destY: number;
+  destWidth: number;
+  destHeight: number;
+  outputWidth: number;
+  outputHeight: number;
+  // White background under the frame. Only for 'color' key mode (GIF) without transparency:
+  // formats with an alpha channel keep the sheet's own alpha.
+  fillWhite: boolean;
+}
+
+/**
+ * Where a placement of `layout` is drawn (see FrameTarget).
+ */
+export const getFrameTarget = (layout: FrameLayout, placement: FramePlacement, fillWhite: boolean): FrameTarget => ({
+  canvasWidth: layout.logicalWidth,
+  canvasHeight: layout.logicalHeight,
+  destX: placement.destX,
+  destY: placement.destY,
+  destWidth: placement.destWidth,
+  destHeight: placement.destHeight,
+  outputWidth: layout.outputWidth,
+  outputHeight: layout.outputHeight,
+  fillWhite,
+});
+
+/**
+ * Places a keyed frame region on the logical canvas, applies the max resolution
+ * downscale and, in 'color' key mode, writes the key color into transparent pixels.
+ */
+export const renderFrame = (
+  frame: RgbaBuffer | null,
+  region: FrameRect | null,
+  target: FrameTarget,
+  keyColor: RGB | null
+): RgbaBuffer => {
+  const { canvasWidth, canvasHeight, outputWidth, outputHeight } = target;
+
+  // Buffer at the logical scale, so alignment stays pixel exact before any resize
+  let canvas = createRgbaBuffer(canvasWidth, canvasHeight);
+  if (target.fillWhite) canvas.data.fill(255);
+  if (frame && region) {
+    drawScaled(frame, region, canvas, target.destX, target.destY, target.destWidth, target.destHeight);
+  }
+
+  if (outputWidth !== canvasWidth || outputHeight !== canvasHeight) {
+    // If a key color is used, smoothing must be OFF to prevent halo effects
+    // when blending with the key color. If opaque or real alpha, smoothing improves downscale quality.
+    canvas = resize(canvas, outputWidth, outputHeight, !keyColor);
+  }
+
+  if (keyColor) {
+    const { data } = canvas;
+    for (let p = 0; p < data.length; p += 4) {
+      if (data[p + 3] !== 0) continue;
+      data[p] = keyColor.r;
+      data[p + 1] = keyColor.g;
+      data[p + 2] = keyColor.b;
+      data[p + 3] = 255;
+    }
+  }
+  return canvas;
+};
+
+// --- Worker protocol (see frameWorker.ts) ---
+
+export type FrameWorkerRequest =
+  // `preview`: also return the keyed frame as an ImageBitmap, ready to draw
+  | { type: 'key'; id: number; bitmap: ImageBitmap; settings: KeySettings; useFloodFill: boolean; seeds: SheetPoint[]; preview: boolean }
+  // GIF color reduction preview of a rendered frame; a null palette is built from the frame itself.
+  // Key-colored pixels come back transparent.
+  | { type: 'quantize'; id: number; frame: RgbaBuffer; palette: RGB[] | null; options: PaletteOptions; keyColor: RGB | null }
+  | { type: 'render'; id: number; frame: RgbaBuffer | null; region: FrameRect | null; target: FrameTarget; keyColor: RGB | null }
+  // Stabilization: shift of `frame` relative to `previous` on a width x height canvas (see motionEstimation.ts)
+  | { type: 'match'; id: number; previous: RgbaBuffer; frame: RgbaBuffer; width: number; height: number; radius: number };
+
+export type FrameWorkerMessage =
+  | { type: 'keyed'; id: number; frame: KeyedFrame; bitmap: ImageBitmap | null }
+  | { type: 'quantized'; id: number; bitmap: ImageBitmap }
+  | { type: 'rendered'; id: number; imageData: ImageData }
+  | { type: 'matched'; id: number; sx: number; sy: number }
+  | { type: 'error'; id: number; message: string };
@@ -0,0 +1,206 @@
+import { SpriteConfig, ImageDimensions, FrameRect, ExportProgressHandler } from "../types";
+import { FrameSource, getFrameSources } from "./frameLayout";
+import { getFrameDuration } from "./frameTiming";
+import { RGB, KeyMode, KeySettings, RenderedFrame, RenderedSequence, computeLayout, getKeySettings } from "./frameRenderer";
+import {
+  RgbaBuffer, KeyedFrame, FrameTarget, FrameWorkerRequest, FrameWorkerMessage, getFrameBBoxes, getFrameSeeds, getLocalRegion, getFrameTarget,
+} from "./framePipeline";
+
+const MAX_WORKERS = 4;
+
+export interface FramePool {
+  size: number; // Number of workers
+  run: (request: FrameWorkerRequest, transfer?: Transferable[]) => Promise<FrameWorkerMessage>;
+  dispose: () => void;
+}
+
+/**
+ * A fixed set of frame workers (see frameWorker.ts). Requests are queued and
+ * handed to whichever worker is idle; each worker handles one frame at a time.
+ */
+export const createFramePool = (taskCount = Infinity): FramePool => {
+  const size = Math.max(1, Math.min(MAX_WORKERS, (navigator.hardwareConcurrency || 2) - 1, taskCount));
+  const workers = Array.from({ length: size }, () =>
+    new Worker(new URL('./frameWorker.ts', import.meta.url), { type: 'module' })
+  );
+  const idle = [...workers];
+  const queue: {
+    request: FrameWorkerRequest;
+    transfer: Transferable[];
+    resolve: (message: FrameWorkerMessage) => void;
+    reject: (error: Error) => void;
+  }[] = [];
+
+  const next = () => {
+    while (idle.length > 0 && queue.length > 0) {
+      const worker = idle.pop()!;
+      const job = queue.shift()!;
+      const release = () => {
+        idle.push(worker);
+        next();
+      };
+      worker.onmessage = (e: MessageEvent<FrameWorkerMessage>) => {
+        release();
+        if (e.data.type === 'error') job.reject(new Error(e.data.message));
+        else job.resolve(e.data);
+      };
+      worker.onerror = (e) => {
+        release();
+        job.reject(new Error(e.message || "帧处理线程启动失败"));
+      };
+      worker.postMessage(job.request, job.transfer);
+    }
+  };
+
+  return {
+    size,
+    run: (request, transfer = []) => new Promise((resolve, reject) => {
+      queue.push({ request, transfer, resolve, reject });
+      next();
+    }),
+    dispose: () => workers.forEach(worker => worker.terminate()),
+  };
+};
+
+/**
+ * Pixels of a loaded image, the input of the frame pipeline.
+ */
+export const readImagePixels = (image: HTMLImageElement): RgbaBuffer => {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not create canvas context");
+  ctx.drawImage(image, 0, 0);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+/**
+ * Crops a frame out of the sheet as an ImageBitmap for transfer, snapped to whole
+ * pixels like cropRgba.
+ */
+export const cropBitmap = (image: HTMLImageElement, source: FrameRect) => createImageBitmap(
+  image,
+  Math.floor(source.x), Math.floor(source.y),
+  Math.max(1, Math.floor(source.width)), Math.max(1, Math.floor(source.height))
+);
+
+/**
+ * Runs one task per item on the pool and reports the share that has finished.
+ */
+const runAll = async <T, R>(items: T[], task: (item: T, id: number) => Promise<R>, onProgress: (pct: number) => void) => {
+  let done = 0;
+  onProgress(0);
+  return Promise.all(items.map(async (item, id) => {
+    const result = await task(item, id);
+    done++;
+    onProgress(Math.round((done / items.length) * 100));
+    return result;
+  }));
+};
+
+/**
+ * Crops and keys every distinct frame in the pool (see keyFrames). The crops travel
+ * to the workers as ImageBitmaps.
+ */
+export const keyFramesInPool = async (
+  pool: FramePool,
+  image: HTMLImageElement,
+  sources: FrameSource[],
+  settings: KeySettings,
+  useFloodFill: boolean,
+  onProgress: (pct: number) => void
+): Promise<Map<number, KeyedFrame>> => {
+  const unique = [...new Map(sources.map(source => [source.originalIndex, source])).values()];
+  const frames = await runAll(unique, async (source, id) => {
+    const bitmap = await cropBitmap(image, source);
+    const seeds = getFrameSeeds(settings.seeds, source);
+    const message = await pool.run({ type: 'key', id, bitmap, settings, useFloodFill, seeds, preview: false }, [bitmap]);
+    if (message.type !== 'keyed') throw new Error("帧处理失败");
+    return message.frame;
+  }, onProgress);
+  return new Map(unique.map((source, i) => [source.originalIndex, frames[i]]));
+};
+
+/**
+ * Renders keyed frame regions in the pool (see renderFrame). Frames are copied, not
+ * transferred, since a sequence may show one frame several times.
+ */
+export const renderFramesInPool = (
+  pool: FramePool,
+  items: { frame: RgbaBuffer | null; region: FrameRect | null; target: FrameTarget }[],
+  keyColor: RGB | null,
+  onProgress: (pct: number) => void
+): Promise<ImageData[]> => runAll(items, async ({ frame, region, target }, id) => {
+  const message = await pool.run({ type: 'render', id, frame, region, target, keyColor });
+  if (message.type !== 'rendered') throw new Error("帧处理失败");
+  return message.imageData;
+}, onProgress);
+
+/**
+ * Shift of each keyed frame's content relative to the previous one (see estimateShift),
+ * matched in the pool. Frames are copied, since each one is matched twice.
+ */
+export const matchFramesInPool = (
+  pool: FramePool,
+  frames: RgbaBuffer[],
+  width: number,
+  height: number,
+  radius: number,
+  onProgress: (pct: number) => void
+): Promise<{ sx: number; sy: number }[]> => runAll(frames.slice(1), async (frame, id) => {
+  const message = await pool.run({ type: 'match', id, previous: frames[id], frame, width, height, radius });
+  if (message.type !== 'matched') throw new Error("帧处理失败");
+  return { sx: message.sx, sy: message.sy };
+}, onProgress);
+
+/**
+ * Runs the frame pipeline (see framePipeline.ts) in a worker pool and returns the
+ * processed RGBA frames, ready to be handed to an encoder. Reports the analysis and
+ * processing phases.
+ */
+export const renderFrames = async (
+  image: HTMLImageElement,
+  config: SpriteConfig,
+  dimensions: ImageDimensions,
+  keyMode: KeyMode,
+  onProgress: ExportProgressHandler
+): Promise<RenderedSequence> => {
+  const sources = getFrameSources(config, dimensions);
+  if (sources.length === 0) {
+    throw new Error("没有有效的帧可供生成");
+  }
+
+  // Prep transparency config
+  const keySettings = getKeySettings(config, keyMode);
+  const { keyColor } = keySettings;
+
+  const pool = createFramePool(sources.length);
+  try {
+    const keyed = await keyFramesInPool(
+      pool, image, sources, keySettings, config.useFloodFill, pct => onProgress(pct, 'analyzing')
+    );
+    const layout = computeLayout(config, sources, getFrameBBoxes(keyed));
+    const { outputWidth, outputHeight, placements } = layout;
+
+    const images = await renderFramesInPool(pool, placements.map(placement => ({
+      frame: keyed.get(placement.source.originalIndex)?.pixels ?? null,
+      region: getLocalRegion(placement),
+      target: getFrameTarget(layout, placement, keyMode === 'color' && !config.transparent),
+    })), keyColor, pct => onProgress(pct, 'processing'));
+
+    const frames = placements.map((placement, i): RenderedFrame => {
+      const { r, c, originalIndex } = placement.source;
+      return {
+        r, c, originalIndex,
+        imageData: images[i],
+        delay: getFrameDuration(config, originalIndex),
+        pivot: placement.pivot,
+      };
+    });
+
+    return { width: outputWidth, height: outputHeight, frames, keyColor };
+  } finally {
+    pool.dispose();
+  }
+};
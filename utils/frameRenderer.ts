@@ -0,0 +1,650 @@
+import { SpriteConfig, FrameRect, PivotPoint, SheetPoint, ColorMetric } from "../types";
+import { FrameCoordinate, FrameSource, getFrameOffset } from "./frameLayout";
+import { resolvePivot } from "./pivots";
+import { ColorDistance, createColorDistance } from "./colorDistance";
+
+export interface RGB {
+  r: number;
+  g: number;
+  b: number;
+}
+
+export const hexToRgb = (hex: string): RGB | null => {
+  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+  return result ? {
+    r: parseInt(result[1], 16),
+    g: parseInt(result[2], 16),
+    b: parseInt(result[3], 16)
+  } : null;
+};
+
+export interface BoundingBox {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * How removed background pixels are written into the rendered frames.
+ * - 'color': replaced by an opaque key color (for palette formats with 1-bit transparency, e.g. GIF)
+ * - 'alpha': cleared to alpha 0 (for formats with a real alpha channel, e.g. APNG)
+ */
+export type KeyMode = 'color' | 'alpha';
+
+export interface RenderedFrame extends FrameCoordinate {
+  imageData: ImageData;
+  delay: number; // Milliseconds
+  pivot: PivotPoint; // Output canvas px
+}
+
+export interface RenderedSequence {
+  width: number;
+  height: number;
+  frames: RenderedFrame[];
+  keyColor: RGB | null; // Only set in 'color' key mode when transparency is enabled
+}
+
+/** A frame as the encoder wrote it */
+export interface EncodedFrame {
+  originalIndex: number;
+  delay: number; // Milliseconds the frame really plays for (after the format's rounding)
+  pivot: PivotPoint; // Output canvas px
+}
+
+/** An encoded animation and its frames in playback order (e.g. for the pivot sidecar) */
+export interface EncodedAnimation {
+  blob: Blob;
+  width: number;
+  height: number;
+  frames: EncodedFrame[];
+}
+
+/**
+ * Calculates the bounding box of the content: every pixel that is not fully transparent.
+ * Background is keyed to alpha 0 before this runs.
+ */
+export const getContentBoundingBox = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number
+): BoundingBox | null => {
+  let minX = width;
+  let minY = height;
+  let maxX = 0;
+  let maxY = 0;
+  let found = false;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] !== 0) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+        found = true;
+      }
+    }
+  }
+
+  if (!found) return null;
+
+  return {
+    minX,
+    minY,
+    maxX,
+    maxY,
+    width: maxX - minX + 1,
+    height: maxY - minY + 1,
+  };
+};
+
+/**
+ * Writes a removed background pixel: either the opaque key color or full transparency.
+ */
+const clearPixel = (data: Uint8ClampedArray, idx: number, keyColor: RGB | null) => {
+  if (keyColor) {
+    data[idx] = keyColor.r;
+    data[idx + 1] = keyColor.g;
+    data[idx + 2] = keyColor.b;
+    data[idx + 3] = 255;
+  } else {
+    data[idx] = 0;
+    data[idx + 1] = 0;
+    data[idx + 2] = 0;
+    data[idx + 3] = 0;
+  }
+};
+
+/** One background color to remove; distances are on the color metric's 0-100 scale */
+export interface KeyTarget {
+  rgb: RGB;
+  tolerance: number; // Pixels this close are removed
+  softTolerance: number; // Distance up to which edge pixels stay partly transparent
+}
+
+interface TargetMatcher extends KeyTarget {
+  distance: ColorDistance;
+}
+
+const createMatchers = ({ targets, metric }: KeySettings): TargetMatcher[] =>
+  targets.map(target => ({ ...target, distance: createColorDistance(metric, target.rgb) }));
+
+/**
+ * Whether a pixel is transparent already or close enough to any of the background colors.
+ */
+const matchesTarget = (data: Uint8ClampedArray, idx: number, matchers: TargetMatcher[]) => {
+  if (data[idx + 3] === 0) return true;
+  const r = data[idx], g = data[idx + 1], b = data[idx + 2];
+  return matchers.some(({ distance, tolerance }) => distance(r, g, b) <= tolerance);
+};
+
+/**
+ * Whether any of the background colors removes `color`.
+ */
+export const isBackgroundColor = (settings: KeySettings, { r, g, b }: RGB) =>
+  createMatchers(settings).some(({ distance, tolerance }) => distance(r, g, b) <= tolerance);
+
+/**
+ * Performs a flood fill starting from the edges of the image and from `seeds` (px).
+ * When keyColor is null, matched pixels are made fully transparent instead.
+ */
+const applyFloodFill = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  matchers: TargetMatcher[],
+  keyColor: RGB | null,
+  seeds: SheetPoint[]
+) => {
+  const visited = new Uint8Array(width * height);
+  const queue: number[] = [];
+
+  const matches = (idx: number) => matchesTarget(data, idx, matchers);
+
+  const addSeed = (x: number, y: number) => {
+    const idx = (y * width + x) * 4;
+    const vIdx = y * width + x;
+    if (visited[vIdx]) return;
+
+    if (matches(idx)) {
+      visited[vIdx] = 1;
+      queue.push(vIdx);
+    }
+  };
+
+  for (let x = 0; x < width; x++) {
+    addSeed(x, 0);
+    addSeed(x, height - 1);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    addSeed(0, y);
+    addSeed(width - 1, y);
+  }
+  for (const { x, y } of seeds) {
+    if (x >= 0 && x < width && y >= 0 && y < height) addSeed(x, y);
+  }
+
+  let head = 0;
+  while (head < queue.length) {
+    const vIdx = queue[head++];
+    const idx = vIdx * 4;
+
+    clearPixel(data, idx, keyColor);
+
+    const x = vIdx % width;
+    const y = Math.floor(vIdx / width);
+
+    const neighbors = [
+      { nx: x + 1, ny: y },
+      { nx: x - 1, ny: y },
+      { nx: x, ny: y + 1 },
+      { nx: x, ny: y - 1 }
+    ];
+
+    for (const { nx, ny } of neighbors) {
+      if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
+        const nVIdx = ny * width + nx;
+        if (!visited[nVIdx]) {
+           const nIdx = nVIdx * 4;
+           if (matches(nIdx)) {
+             visited[nVIdx] = 1;
+             queue.push(nVIdx);
+           }
+        }
+      }
+    }
+  }
+};
+
+export interface KeySettings {
+  transparentRGB: RGB | null; // Main background color
+  targets: KeyTarget[]; // Every background color to remove, the main one first
+  metric: ColorMetric;
+  seeds: SheetPoint[]; // Extra flood fill starts (sheet px)
+  keyColor: RGB | null;
+  despill: boolean;
+  defringe: number; // Px eroded from the content edge
+}
+
+// Opaque key colors for 'color' mode, in order of preference
+const KEY_COLOR_CANDIDATES: RGB[] = [{ r: 255, g: 0, b: 255 }, { r: 0, g: 255, b: 0 }, { r: 0, g: 255, b: 255 }];
+
+const toKeyTarget = (rgb: RGB, tolerance: number, edgeSoftness: number): KeyTarget =>
+  ({ rgb, tolerance, softTolerance: tolerance + edgeSoftness });
+
+/**
+ * Parses the transparency config. In 'color' key mode a key color is picked
+ * that is far enough from every background color to stay distinguishable.
+ */
+export const getKeySettings = (config: SpriteConfig, keyMode: KeyMode): KeySettings => {
+  const {
+    transparent, tolerance = 0, extraKeyColors = [], floodSeeds = [], colorMetric = 'rgb',
+    edgeSoftness = 0, despill = false, defringe = 0,
+  } = config;
+
+  const transparentRGB = transparent ? hexToRgb(transparent) : null;
+  const targets: KeyTarget[] = [];
+  let keyColor: RGB | null = null;
+
+  if (transparentRGB) {
+    targets.push(toKeyTarget(transparentRGB, tolerance, edgeSoftness));
+    for (const extra of extraKeyColors) {
+      const rgb = hexToRgb(extra.color);
+      if (rgb) targets.push(toKeyTarget(rgb, extra.tolerance, edgeSoftness));
+    }
+
+    if (keyMode === 'color') {
+      keyColor = KEY_COLOR_CANDIDATES.find(candidate => targets.every(({ rgb }) =>
+        Math.sqrt((rgb.r - candidate.r) ** 2 + (rgb.g - candidate.g) ** 2 + (rgb.b - candidate.b) ** 2) >= 100
+      )) ?? KEY_COLOR_CANDIDATES[0];
+    }
+  }
+
+  return { transparentRGB, targets, metric: colorMetric, seeds: floodSeeds, keyColor, despill, defringe };
+};
+
+/**
+ * Removes the background colors from a pixel buffer, either by flood filling
+ * from the edges (and `seeds`, buffer px) or by replacing every matching pixel.
+ */
+export const applyChromaKey = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  settings: KeySettings,
+  useFloodFill: boolean,
+  seeds: SheetPoint[] = []
+) => {
+  const { targets, keyColor } = settings;
+  if (targets.length === 0) return;
+  const matchers = createMatchers(settings);
+
+  if (useFloodFill) {
+    applyFloodFill(data, width, height, matchers, keyColor, seeds);
+    return;
+  }
+
+  for (let p = 0; p < data.length; p += 4) {
+     if (matchesTarget(data, p, matchers)) {
+        clearPixel(data, p, keyColor);
+     }
+  }
+};
+
+// Px around the content edge that are despilled, past the defringed ones
+const DESPILL_RADIUS = 2;
+
+/**
+ * Gives the pixels between the tolerance and the soft tolerance partial alpha and
+ * unmixes the background color out of them: C = a*F + (1-a)*K, so F = K + (C - K) / a.
+ * With flood fill only the band touching the removed background is softened.
+ */
+const applySoftEdges = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  settings: KeySettings,
+  useFloodFill: boolean
+) => {
+  const bands = createMatchers(settings).filter(({ tolerance, softTolerance }) => softTolerance > tolerance);
+  if (bands.length === 0) return;
+
+  // Returns whether the pixel lies in a soft band (and was softened against the closest background)
+  const soften = (p: number) => {
+    const r = data[p], g = data[p + 1], b = data[p + 2];
+    let a = 1;
+    let background: RGB | null = null;
+    for (const { rgb, tolerance, softTolerance, distance } of bands) {
+      const dist = distance(r, g, b);
+      if (dist >= softTolerance) continue;
+      const keep = Math.max(0, (dist - tolerance) / (softTolerance - tolerance));
+      if (keep < a || !background) {
+        a = keep;
+        background = rgb;
+      }
+    }
+    if (!background) return false;
+
+    const alpha = Math.round(data[p + 3] * a);
+    if (alpha === 0) {
+      clearPixel(data, p, null);
+      return true;
+    }
+    data[p] = background.r + (r - background.r) / a;
+    data[p + 1] = background.g + (g - background.g) / a;
+    data[p + 2] = background.b + (b - background.b) / a;
+    data[p + 3] = alpha;
+    return true;
+  };
+
+  if (!useFloodFill) {
+    for (let p = 0; p < data.length; p += 4) {
+      if (data[p + 3] !== 0) soften(p);
+    }
+    return;
+  }
+
+  const visited = new Uint8Array(width * height);
+  const queue: number[] = [];
+  for (let i = 0; i < width * height; i++) {
+    if (data[i * 4 + 3] === 0) {
+      visited[i] = 1;
+      queue.push(i);
+    }
+  }
+
+  let head = 0;
+  while (head < queue.length) {
+    const i = queue[head++];
+    const x = i % width;
+    const y = (i - x) / width;
+    const neighbors = [
+      x + 1 < width ? i + 1 : -1,
+      x > 0 ? i - 1 : -1,
+      y + 1 < height ? i + width : -1,
+      y > 0 ? i - width : -1,
+    ];
+    for (const n of neighbors) {
+      if (n < 0 || visited[n]) continue;
+      visited[n] = 1;
+      if (soften(n * 4)) queue.push(n);
+    }
+  }
+};
+
+/**
+ * Chessboard distance (px) of every pixel to the nearest transparent one, counted up
+ * to `limit`; pixels farther away get limit + 1.
+ */
+const getEdgeDistances = (data: Uint8ClampedArray, width: number, height: number, limit: number) => {
+  const distances = new Uint16Array(width * height).fill(limit + 1);
+  const queue: number[] = [];
+  for (let i = 0; i < width * height; i++) {
+    if (data[i * 4 + 3] === 0) {
+      distances[i] = 0;
+      queue.push(i);
+    }
+  }
+
+  let head = 0;
+  while (head < queue.length) {
+    const i = queue[head++];
+    const next = distances[i] + 1;
+    if (next > limit) continue;
+    const x = i % width;
+    const y = (i - x) / width;
+    for (let ny = Math.max(0, y - 1); ny <= Math.min(height - 1, y + 1); ny++) {
+      for (let nx = Math.max(0, x - 1); nx <= Math.min(width - 1, x + 1); nx++) {
+        const n = ny * width + nx;
+        if (distances[n] <= next) continue;
+        distances[n] = next;
+        queue.push(n);
+      }
+    }
+  }
+  return distances;
+};
+
+/**
+ * Cleans up the edge applyChromaKey leaves in alpha mode: soft alpha with the background
+ * unmixed, then `defringe` px eroded, then the main background hue taken out of the new edge
+ * (despill). Brightness is kept, and gray backgrounds have no hue to take out.
+ */
+export const refineEdges = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  settings: KeySettings,
+  useFloodFill: boolean
+) => {
+  const { transparentRGB, despill, defringe } = settings;
+  if (!transparentRGB) return;
+  applySoftEdges(data, width, height, settings, useFloodFill);
+
+  // Unit vector of the background hue: its color minus its gray level
+  const mean = (transparentRGB.r + transparentRGB.g + transparentRGB.b) / 3;
+  const hr = transparentRGB.r - mean, hg = transparentRGB.g - mean, hb = transparentRGB.b - mean;
+  const hueLength = Math.sqrt(hr * hr + hg * hg + hb * hb);
+  const despillRadius = despill && hueLength >= 8 ? DESPILL_RADIUS : 0;
+  if (defringe <= 0 && despillRadius === 0) return;
+
+  const distances = getEdgeDistances(data, width, height, defringe + despillRadius);
+  const ur = hr / hueLength, ug = hg / hueLength, ub = hb / hueLength;
+  for (let i = 0; i < distances.length; i++) {
+    const distance = distances[i];
+    if (distance === 0 || distance > defringe + despillRadius) continue;
+
+    const p = i * 4;
+    if (distance <= defringe) {
+      clearPixel(data, p, null);
+      continue;
+    }
+
+    const r = data[p], g = data[p + 1], b = data[p + 2];
+    const pixelMean = (r + g + b) / 3;
+    const spill = (r - pixelMean) * ur + (g - pixelMean) * ug + (b - pixelMean) * ub;
+    if (spill <= 0) continue;
+    data[p] = r - spill * ur;
+    data[p + 1] = g - spill * ug;
+    data[p + 2] = b - spill * ub;
+  }
+};
+
+/**
+ * Smallest rectangle (frame-local px) that contains the content of every frame.
+ */
+export const getUnionBoundingBox = (bboxes: Iterable<BoundingBox | null>): BoundingBox | null => {
+  let union: BoundingBox | null = null;
+  for (const bbox of bboxes) {
+    if (!bbox) continue;
+    const minX = union ? Math.min(union.minX, bbox.minX) : bbox.minX;
+    const minY = union ? Math.min(union.minY, bbox.minY) : bbox.minY;
+    const maxX = union ? Math.max(union.maxX, bbox.maxX) : bbox.maxX;
+    const maxY = union ? Math.max(union.maxY, bbox.maxY) : bbox.maxY;
+    union = { minX, minY, maxX, maxY, width: maxX - minX + 1, height: maxY - minY + 1 };
+  }
+  return union;
+};
+
+export interface FramePlacement {
+  source: FrameSource;
+  region: FrameRect | null; // Part of the sheet that is drawn (content bbox or whole rect), null = empty frame
+  destX: number; // Where the region lands on the logical canvas
+  destY: number;
+  destWidth: number;
+  destHeight: number;
+  pivot: PivotPoint; // Frame pivot on the output canvas (after max resolution downscale)
+}
+
+export interface FrameLayout {
+  logicalWidth: number; // Canvas at the user scale
+  logicalHeight: number;
+  outputWidth: number; // Canvas after the optional 1024px limit
+  outputHeight: number;
+  placements: FramePlacement[];
+}
+
+/**
+ * Decides where every frame goes on the output canvas (crop, auto align, pivot,
+ * manual offset, scale, max resolution) from the analyzed content bboxes,
+ * without touching any pixels.
+ */
+export const computeLayout = (
+  config: SpriteConfig,
+  sources: FrameSource[],
+  frameBBoxes: Map<number, BoundingBox | null>
+): FrameLayout => {
+    const {
+        scale, autoAlign = false, alignMode = 'center',
+        maxResolution1024 = false
+    } = config;
+
+    if (sources.length === 0) {
+        throw new Error("没有有效的帧可供生成");
+    }
+
+    // Stabilize keeps whole frames in place and relies on the registered frameOffsets instead of bboxes.
+    // Union crops every frame to one shared rect, so motion between frames is kept.
+    const alignByUnion = autoAlign && alignMode === 'union';
+    const alignByBBox = autoAlign && alignMode !== 'stabilize' && !alignByUnion;
+    const alignByPivot = autoAlign && alignMode === 'pivot';
+
+    // Grid cells all share one size; free-layout sprites get a canvas that fits the largest
+    let finalWidth = Math.max(...sources.map(s => s.width));
+    let finalHeight = Math.max(...sources.map(s => s.height));
+
+    // --- SMART RECONSTRUCTION (Auto Align Analysis) ---
+    // bboxes are in ORIGINAL RESOLUTION. Always needed: pivots default to a point of the content bbox.
+    const pivots = sources.map(source => resolvePivot(config, source, frameBBoxes.get(source.originalIndex) ?? null));
+
+    // Pivot alignment: every frame's pivot lands on one anchor point, 1px margin like bbox alignment
+    let anchor = { x: 0, y: 0 };
+    const unionBox = alignByUnion ? getUnionBoundingBox(frameBBoxes.values()) : null;
+    const padding = Math.max(0, config.trimPadding);
+
+    if (unionBox) {
+        finalWidth = unionBox.width + padding * 2;
+        finalHeight = unionBox.height + padding * 2;
+    } else if (alignByPivot) {
+        let maxLeft = 0, maxRight = 0, maxTop = 0, maxBottom = 0;
+        sources.forEach((source, i) => {
+            const bbox = frameBBoxes.get(source.originalIndex);
+            if (!bbox) return;
+            maxLeft = Math.max(maxLeft, pivots[i].x - bbox.minX);
+            maxRight = Math.max(maxRight, bbox.minX + bbox.width - pivots[i].x);
+            maxTop = Math.max(maxTop, pivots[i].y - bbox.minY);
+            maxBottom = Math.max(maxBottom, bbox.minY + bbox.height - pivots[i].y);
+        });
+
+        if (maxLeft + maxRight > 0 && maxTop + maxBottom > 0) {
+            finalWidth = Math.ceil(maxLeft + maxRight) + 2;
+            finalHeight = Math.ceil(maxTop + maxBottom) + 2;
+            anchor = { x: maxLeft + 1, y: maxTop + 1 };
+        }
+    } else if (alignByBBox) {
+        let maxW = 0;
+        let maxH = 0;
+        for (const bbox of frameBBoxes.values()) {
+            if (bbox) {
+                maxW = Math.max(maxW, bbox.width);
+                maxH = Math.max(maxH, bbox.height);
+            }
+        }
+
+        if (maxW > 0 && maxH > 0) {
+            finalWidth = maxW + 2;
+            finalHeight = maxH + 2;
+        }
+    }
+
+    // --- DIMENSION CALCULATION ---
+    // 1. Calculate the "Logical" dimensions based on user config (scale)
+    // This represents the ideal pixel grid as defined by the user (e.g., 4x scale).
+    const logicalWidth = Math.floor(finalWidth * scale);
+    const logicalHeight = Math.floor(finalHeight * scale);
+
+    // 2. Calculate the "Output" dimensions (constrained by 1024px if enabled)
+    // This is the "final adjustment" step.
+    let outputWidth = logicalWidth;
+    let outputHeight = logicalHeight;
+    let resizeRatio = 1.0;
+
+    if (maxResolution1024) {
+        const maxSide = Math.max(logicalWidth, logicalHeight);
+        if (maxSide > 1024) {
+            resizeRatio = 1024 / maxSide;
+            outputWidth = Math.floor(logicalWidth * resizeRatio);
+            outputHeight = Math.floor(logicalHeight * resizeRatio);
+        }
+    }
+
+    const placements = sources.map((source, i): FramePlacement => {
+        // Region of the source to draw: the content bbox when auto aligning, else the whole rect
+        const bbox = frameBBoxes.get(source.originalIndex) ?? null;
+        let region: FrameRect | null = {
+            x: source.x, y: source.y, width: source.width, height: source.height,
+        };
+        if (unionBox) {
+            // Smaller free-layout sprites may not cover the whole union rect
+            region = {
+                x: source.x + unionBox.minX,
+                y: source.y + unionBox.minY,
+                width: Math.max(0, Math.min(unionBox.width, source.width - unionBox.minX)),
+                height: Math.max(0, Math.min(unionBox.height, source.height - unionBox.minY)),
+            };
+        } else if (alignByBBox) {
+            region = bbox
+                ? { x: source.x + bbox.minX, y: source.y + bbox.minY, width: bbox.width, height: bbox.height }
+                : null;
+        }
+
+        // Region position inside its frame (bbox offset, or 0 for the whole rect)
+        const localX = region ? region.x - source.x : 0;
+        const localY = region ? region.y - source.y : 0;
+
+        // Logic uses logical scaling, ensuring integer consistency with grid
+        const scaledW = Math.floor((region ?? source).width * scale);
+        const scaledH = Math.floor((region ?? source).height * scale);
+
+        let destX: number;
+        let destY: number;
+        if (unionBox) {
+            destX = Math.floor(padding * scale);
+            destY = Math.floor(padding * scale);
+        } else if (alignByPivot) {
+            destX = Math.floor((anchor.x - (pivots[i].x - localX)) * scale);
+            destY = Math.floor((anchor.y - (pivots[i].y - localY)) * scale);
+        } else {
+            // Center in the logical canvas (grid cells without auto align fill it exactly)
+            destX = Math.floor((logicalWidth - scaledW) / 2);
+            if (autoAlign && alignMode === 'bottom') {
+                destY = logicalHeight - scaledH;
+            } else {
+                destY = Math.floor((logicalHeight - scaledH) / 2);
+            }
+        }
+
+        // Manual per-frame nudge, on top of the alignment
+        const offset = getFrameOffset(config, source.originalIndex);
+        destX += Math.round(offset.dx * scale);
+        destY += Math.round(offset.dy * scale);
+
+        return {
+            source,
+            region,
+            destX,
+            destY,
+            destWidth: scaledW,
+            destHeight: scaledH,
+            pivot: {
+                x: (destX + (pivots[i].x - localX) * scale) * resizeRatio,
+                y: (destY + (pivots[i].y - localY) * scale) * resizeRatio,
+            },
+        };
+    });
+
+    return { logicalWidth, logicalHeight, outputWidth, outputHeight, placements };
+};
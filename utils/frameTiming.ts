@@ -0,0 +1,29 @@
+import { SpriteConfig, PlaybackMode } from "../types";
+
+/**
+ * Display time of a frame in milliseconds: its override, or the global FPS.
+ */
+export const getFrameDuration = (config: SpriteConfig, originalIndex: number) =>
+  config.frameDurations[originalIndex] ?? 1000 / config.fps;
+
+/**
+ * GIF stores delays in whole centiseconds, and browsers slow anything under 2 cs
+ * down to 10 cs. Returns the delay (ms) a GIF frame will actually play for.
+ */
+export const toGifDelay = (ms: number) => Math.max(2, Math.round(ms / 10)) * 10;
+
+/**
+ * Orders frames for playback. Ping-pong plays forward then back without repeating
+ * the end frames, so it loops seamlessly: 0 1 2 3 2 1 | 0 1 2 3 2 1 ...
+ */
+export const applyPlaybackMode = <T>(frames: T[], mode: PlaybackMode): T[] => {
+  if (mode === 'reverse') return [...frames].reverse();
+  if (mode === 'pingpong') return [...frames, ...frames.slice(1, -1).reverse()];
+  return frames;
+};
+
+/**
+ * NETSCAPE2.0 repeat count for a number of plays (0 = forever). The extension counts
+ * repeats after the first play; the encoder writes it for any value >= 0 and omits it for -1.
+ */
+export const toGifRepeat = (loopCount: number) => loopCount === 0 ? 0 : loopCount === 1 ? -1 : loopCount - 1;
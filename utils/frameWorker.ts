@@ -0,0 +1,65 @@
+import { keyFrame, renderFrame, RgbaBuffer, FrameWorkerRequest, FrameWorkerMessage } from "./framePipeline";
+import { buildPalette, quantizeImageData } from "./palette";
+import { estimateShift } from "./motionEstimation";
+
+const post = (message: FrameWorkerMessage, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+// Frame crop -> RGBA, the only step that needs a canvas
+const readBitmap = (bitmap: ImageBitmap): RgbaBuffer => {
+  const ctx = new OffscreenCanvas(bitmap.width, bitmap.height).getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not create canvas context");
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height);
+};
+
+// RGBA -> bitmap the preview can draw without touching pixels again
+const toBitmap = ({ data, width, height }: RgbaBuffer) => {
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not create canvas context");
+  ctx.putImageData(new ImageData(data, width, height), 0, 0);
+  return canvas.transferToImageBitmap();
+};
+
+self.onmessage = (e: MessageEvent<FrameWorkerRequest>) => {
+  const request = e.data;
+  try {
+    if (request.type === 'key') {
+      const frame = keyFrame(readBitmap(request.bitmap), request.settings, request.useFloodFill, request.seeds);
+      const bitmap = request.preview ? toBitmap(frame.pixels) : null;
+      post(
+        { type: 'keyed', id: request.id, frame, bitmap },
+        [frame.pixels.data.buffer as ArrayBuffer, ...(bitmap ? [bitmap] : [])]
+      );
+      return;
+    }
+
+    if (request.type === 'quantize') {
+      const { frame, options, keyColor } = request;
+      const palette = request.palette ?? buildPalette([frame], options, keyColor);
+      const { indices, transparentIndex } = quantizeImageData(frame, palette, options.dither, keyColor, options.alphaThreshold);
+      // Show the GIF's transparent color as transparent
+      if (transparentIndex !== null) {
+        indices.forEach((index, i) => {
+          if (index === transparentIndex) frame.data[i * 4 + 3] = 0;
+        });
+      }
+      const bitmap = toBitmap(frame);
+      post({ type: 'quantized', id: request.id, bitmap }, [bitmap]);
+      return;
+    }
+
+    if (request.type === 'match') {
+      const { sx, sy } = estimateShift(request.previous, request.frame, request.width, request.height, request.radius);
+      post({ type: 'matched', id: request.id, sx, sy });
+      return;
+    }
+
+    const { data, width, height } = renderFrame(request.frame, request.region, request.target, request.keyColor);
+    const imageData = new ImageData(data, width, height);
+    post({ type: 'rendered', id: request.id, imageData }, [data.buffer as ArrayBuffer]);
+  } catch (error: any) {
+    post({ type: 'error', id: request.id, message: error.message || '帧处理失败' });
+  }
+};
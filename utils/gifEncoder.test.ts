@@ -0,0 +1,234 @@
+import { describe, it, expect } from "vitest";
+import { RGB } from "./frameRenderer";
+import { GifFrame, encodeGif } from "./gifEncoder";
+
+interface DecodedFrame {
+  disposal: number;
+  transparentIndex: number | null;
+  delay: number; // 1/100 s
+  width: number;
+  height: number;
+  palette: RGB[] | null;
+  indices: number[];
+}
+
+const readTable = (gif: Uint8Array, offset: number, size: number): RGB[] =>
+  Array.from({ length: size }, (_, i) => ({ r: gif[offset + i * 3], g: gif[offset + i * 3 + 1], b: gif[offset + i * 3 + 2] }));
+
+// Variable-length LZW decoder as in the GIF89a spec
+const decodeLzw = (data: Uint8Array, minCodeSize: number) => {
+  const clearCode = 1 << minCodeSize;
+  const eoiCode = clearCode + 1;
+  let prefixes: number[] = [];
+  let suffixes: number[] = [];
+  let codeSize = minCodeSize + 1;
+  let nextCode = eoiCode + 1;
+  let previous = -1;
+  const out: number[] = [];
+
+  const sequence = (code: number) => {
+    const values: number[] = [];
+    while (code > eoiCode) {
+      values.push(suffixes[code]);
+      code = prefixes[code];
+    }
+    values.push(code);
+    return values.reverse();
+  };
+
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let position = 0;
+  while (true) {
+    while (bitCount < codeSize && position < data.length) {
+      bitBuffer |= data[position++] << bitCount;
+      bitCount += 8;
+    }
+    if (bitCount < codeSize) throw new Error("LZW data ended without an EOI code");
+    const code = bitBuffer & ((1 << codeSize) - 1);
+    bitBuffer >>>= codeSize;
+    bitCount -= codeSize;
+
+    if (code === clearCode) {
+      prefixes = [];
+      suffixes = [];
+      codeSize = minCodeSize + 1;
+      nextCode = eoiCode + 1;
+      previous = -1;
+      continue;
+    }
+    if (code === eoiCode) return out;
+    if (previous === -1) {
+      out.push(code);
+      previous = code;
+      continue;
+    }
+
+    if (code > nextCode) throw new Error(`Invalid LZW code ${code}`);
+    const values = code < nextCode ? sequence(code) : [...sequence(previous), sequence(previous)[0]];
+    if (nextCode < 4096) {
+      prefixes[nextCode] = previous;
+      suffixes[nextCode] = values[0];
+      nextCode++;
+      if (nextCode === 1 << codeSize && codeSize < 12) codeSize++;
+    }
+    out.push(...values);
+    previous = code;
+  }
+};
+
+const decodeGif = (gif: Uint8Array) => {
+  const view = new DataView(gif.buffer, gif.byteOffset, gif.byteLength);
+  expect(String.fromCharCode(...gif.subarray(0, 6))).toBe('GIF89a');
+  const width = view.getUint16(6, true);
+  const height = view.getUint16(8, true);
+  const packed = gif[10];
+  let offset = 13;
+  let globalPalette: RGB[] | null = null;
+  if (packed & 0x80) {
+    globalPalette = readTable(gif, offset, 1 << ((packed & 7) + 1));
+    offset += globalPalette.length * 3;
+  }
+
+  let repeat: number | null = null;
+  const frames: DecodedFrame[] = [];
+  let control = { disposal: 0, transparentIndex: null as number | null, delay: 0 };
+
+  const readSubBlocks = () => {
+    const parts: number[] = [];
+    while (gif[offset] !== 0) {
+      const length = gif[offset];
+      parts.push(...gif.subarray(offset + 1, offset + 1 + length));
+      offset += 1 + length;
+    }
+    offset++;
+    return new Uint8Array(parts);
+  };
+
+  while (gif[offset] !== 0x3b) {
+    const introducer = gif[offset];
+    if (introducer === 0x21) {
+      const label = gif[offset + 1];
+      offset += 2;
+      if (label === 0xf9) {
+        const flags = gif[offset + 1];
+        control = {
+          disposal: (flags >> 2) & 7,
+          transparentIndex: flags & 1 ? gif[offset + 4] : null,
+          delay: view.getUint16(offset + 2, true),
+        };
+        offset += 6;
+      } else if (label === 0xff) {
+        const id = String.fromCharCode(...gif.subarray(offset + 1, offset + 12));
+        offset += 12;
+        const data = readSubBlocks();
+        if (id === 'NETSCAPE2.0') repeat = data[1] | (data[2] << 8);
+      } else {
+        offset++;
+        readSubBlocks();
+      }
+    } else if (introducer === 0x2c) {
+      const frameWidth = view.getUint16(offset + 5, true);
+      const frameHeight = view.getUint16(offset + 7, true);
+      const flags = gif[offset + 9];
+      offset += 10;
+      let palette: RGB[] | null = null;
+      if (flags & 0x80) {
+        palette = readTable(gif, offset, 1 << ((flags & 7) + 1));
+        offset += palette.length * 3;
+      }
+      const minCodeSize = gif[offset++];
+      const indices = decodeLzw(readSubBlocks(), minCodeSize);
+      frames.push({ ...control, width: frameWidth, height: frameHeight, palette, indices });
+    } else {
+      throw new Error(`Unexpected block 0x${introducer.toString(16)}`);
+    }
+  }
+  return { width, height, globalPalette, repeat, frames };
+};
+
+const PALETTE: RGB[] = [
+  { r: 0, g: 0, b: 0 },
+  { r: 255, g: 0, b: 0 },
+  { r: 0, g: 255, b: 0 },
+  { r: 0, g: 0, b: 255 },
+  { r: 255, g: 255, b: 255 },
+];
+
+const frame = (indices: number[], overrides: Partial<GifFrame> = {}): GifFrame => ({
+  indices: new Uint8Array(indices),
+  palette: null,
+  transparentIndex: null,
+  delay: 100,
+  disposal: 'none',
+  ...overrides,
+});
+
+// Deterministic pseudo-random indices below `colors`
+const noise = (length: number, colors: number) => {
+  let seed = 42;
+  return Array.from({ length }, () => {
+    seed = (Math.imul(seed, 1103515245) + 12345) >>> 0;
+    return (seed >>> 16) % colors;
+  });
+};
+
+describe("encodeGif", () => {
+  it("writes the screen, global palette and loop count", () => {
+    const gif = decodeGif(encodeGif({ width: 3, height: 2, globalPalette: PALETTE, repeat: 0 }, [frame([0, 1, 2, 3, 4, 0])]));
+    expect([gif.width, gif.height]).toEqual([3, 2]);
+    // Padded to the next power of two
+    expect(gif.globalPalette).toEqual([...PALETTE, ...Array(3).fill({ r: 0, g: 0, b: 0 })]);
+    expect(gif.repeat).toBe(0);
+    expect(gif.frames[0].indices).toEqual([0, 1, 2, 3, 4, 0]);
+    expect([gif.frames[0].width, gif.frames[0].height]).toEqual([3, 2]);
+  });
+
+  it("leaves out the loop extension when playing once", () => {
+    const gif = decodeGif(encodeGif({ width: 1, height: 1, globalPalette: PALETTE, repeat: -1 }, [frame([1])]));
+    expect(gif.repeat).toBeNull();
+    expect(decodeGif(encodeGif({ width: 1, height: 1, globalPalette: PALETTE, repeat: 3 }, [frame([1])])).repeat).toBe(3);
+  });
+
+  it("writes delay, disposal, transparency and local palettes per frame", () => {
+    const local = [{ r: 10, g: 20, b: 30 }, { r: 40, g: 50, b: 60 }];
+    const gif = decodeGif(encodeGif({ width: 2, height: 1, globalPalette: PALETTE, repeat: 0 }, [
+      frame([1, 2], { delay: 120, disposal: 'background', transparentIndex: 0 }),
+      frame([1, 0], { delay: 30, disposal: 'previous', palette: local }),
+      frame([0, 0], { delay: 0, disposal: 'unspecified' }),
+    ]));
+
+    expect(gif.frames.map(({ delay, disposal, transparentIndex }) => [delay, disposal, transparentIndex])).toEqual([
+      [12, 2, 0],
+      [3, 3, null],
+      [0, 0, null],
+    ]);
+    expect(gif.frames.map(f => f.palette)).toEqual([null, local, null]);
+    expect(gif.frames[1].indices).toEqual([1, 0]);
+  });
+
+  it("compresses large frames losslessly, past a full code table", () => {
+    for (const colors of [2, 16, 256]) {
+      const indices = noise(160 * 120, colors);
+      const palette = Array.from({ length: colors }, (_, i) => ({ r: i, g: 255 - i, b: i >> 1 }));
+      const gif = decodeGif(encodeGif({ width: 160, height: 120, globalPalette: palette, repeat: 0 }, [frame(indices)]));
+      expect(gif.frames[0].indices).toEqual(indices);
+    }
+  });
+
+  it("compresses long runs losslessly", () => {
+    const indices = [...Array(5000).fill(3), ...Array(3000).fill(1), 2];
+    const gif = decodeGif(encodeGif({ width: 8001, height: 1, globalPalette: PALETTE, repeat: 0 }, [frame(indices)]));
+    expect(gif.frames[0].indices).toEqual(indices);
+  });
+
+  it("reports progress per frame", () => {
+    const progress: [number, number][] = [];
+    encodeGif({ width: 1, height: 1, globalPalette: PALETTE, repeat: 0 }, [frame([0]), frame([1])], (done, total) => progress.push([done, total]));
+    expect(progress).toEqual([[1, 2], [2, 2]]);
+  });
+
+  it("rejects frames without any palette", () => {
+    expect(() => encodeGif({ width: 1, height: 1, globalPalette: null, repeat: 0 }, [frame([0])])).toThrow("GIF 帧缺少调色板");
+  });
+});
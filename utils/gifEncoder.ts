@@ -0,0 +1,240 @@
+import { PaletteOptions } from "../types";
+import { RGB } from "./frameRenderer";
+import { asciiBytes } from "./binary";
+
+/**
+ * What the decoder does with a frame before drawing the next one.
+ * - 'unspecified': decoder's choice (frames usually stay)
+ * - 'none': leave the frame in place
+ * - 'background': clear the frame area to transparent
+ * - 'previous': restore what was there before the frame
+ */
+export type GifDisposal = 'unspecified' | 'none' | 'background' | 'previous';
+
+const DISPOSAL_CODES: Record<GifDisposal, number> = { unspecified: 0, none: 1, background: 2, previous: 3 };
+
+export interface GifFrame {
+  indices: Uint8Array; // One palette index per pixel, row by row
+  palette: RGB[] | null; // Local color table, null = use the global one
+  transparentIndex: number | null;
+  delay: number; // Milliseconds, stored in 1/100 s
+  disposal: GifDisposal;
+}
+
+export interface GifOptions {
+  width: number;
+  height: number;
+  globalPalette: RGB[] | null;
+  repeat: number; // NETSCAPE loop count: 0 = forever, -1 = play once (no loop extension)
+}
+
+// Growable byte buffer
+class ByteWriter {
+  private buffer = new Uint8Array(4096);
+  length = 0;
+
+  private ensure(extra: number) {
+    if (this.length + extra <= this.buffer.length) return;
+    let size = this.buffer.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+  }
+
+  byte(value: number) {
+    this.ensure(1);
+    this.buffer[this.length++] = value & 0xff;
+  }
+
+  uint16(value: number) {
+    this.byte(value);
+    this.byte(value >> 8);
+  }
+
+  bytes(data: Uint8Array) {
+    this.ensure(data.length);
+    this.buffer.set(data, this.length);
+    this.length += data.length;
+  }
+
+  result() {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+// Color tables hold 2^n entries (n = 1..8)
+const tableBits = (colorCount: number) => {
+  let bits = 1;
+  while ((1 << bits) < colorCount) bits++;
+  return bits;
+};
+
+const writeColorTable = (out: ByteWriter, palette: RGB[]) => {
+  const size = 1 << tableBits(palette.length);
+  for (let i = 0; i < size; i++) {
+    const color = palette[i] ?? { r: 0, g: 0, b: 0 };
+    out.byte(color.r);
+    out.byte(color.g);
+    out.byte(color.b);
+  }
+};
+
+/**
+ * Variable-length LZW as GIF uses it: codes grow from minCodeSize + 1 up to 12 bits,
+ * and the table is reset with a clear code once it is full.
+ */
+const writeLzw = (out: ByteWriter, indices: Uint8Array, minCodeSize: number) => {
+  const clearCode = 1 << minCodeSize;
+  const eoiCode = clearCode + 1;
+
+  // Packed codes, flushed as sub-blocks of at most 255 bytes
+  const block = new Uint8Array(255);
+  let blockLength = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let codeSize = minCodeSize + 1;
+
+  const flushBlock = () => {
+    if (blockLength === 0) return;
+    out.byte(blockLength);
+    out.bytes(block.subarray(0, blockLength));
+    blockLength = 0;
+  };
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block[blockLength++] = bitBuffer & 0xff;
+      if (blockLength === 255) flushBlock();
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  out.byte(minCodeSize);
+
+  // (prefix code << 8 | next index) -> code
+  const table = new Map<number, number>();
+  let nextCode = eoiCode + 1;
+  emit(clearCode);
+
+  let current = indices.length > 0 ? indices[0] : 0;
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (current << 8) | k;
+    const code = table.get(key);
+    if (code !== undefined) {
+      current = code;
+      continue;
+    }
+
+    emit(current);
+    if (nextCode === 4096) {
+      emit(clearCode);
+      table.clear();
+      nextCode = eoiCode + 1;
+      codeSize = minCodeSize + 1;
+    } else {
+      if (nextCode >= (1 << codeSize)) codeSize++;
+      table.set(key, nextCode++);
+    }
+    current = k;
+  }
+
+  emit(current);
+  emit(eoiCode);
+  if (bitCount > 0) {
+    block[blockLength++] = bitBuffer & 0xff;
+    if (blockLength === 255) flushBlock();
+  }
+  flushBlock();
+  out.byte(0); // Block terminator
+};
+
+/**
+ * Encodes indexed frames as an animated GIF89a.
+ */
+export const encodeGif = (
+  options: GifOptions,
+  frames: GifFrame[],
+  onProgress?: (done: number, total: number) => void
+): Uint8Array => {
+  const { width, height, globalPalette, repeat } = options;
+  const out = new ByteWriter();
+
+  // Header + logical screen descriptor
+  out.bytes(asciiBytes('GIF89a'));
+  out.uint16(width);
+  out.uint16(height);
+  if (globalPalette) {
+    // Global table flag, 8-bit color resolution, table size
+    out.byte(0x80 | 0x70 | (tableBits(globalPalette.length) - 1));
+  } else {
+    out.byte(0x70);
+  }
+  out.byte(0); // Background color index
+  out.byte(0); // Pixel aspect ratio
+  if (globalPalette) writeColorTable(out, globalPalette);
+
+  // NETSCAPE2.0 application extension: loop count
+  if (repeat >= 0) {
+    out.byte(0x21);
+    out.byte(0xff);
+    out.byte(11);
+    out.bytes(asciiBytes('NETSCAPE2.0'));
+    out.byte(3);
+    out.byte(1);
+    out.uint16(repeat);
+    out.byte(0);
+  }
+
+  frames.forEach((frame, i) => {
+    const palette = frame.palette ?? globalPalette;
+    if (!palette) {
+      throw new Error("GIF 帧缺少调色板");
+    }
+
+    // Graphic control extension: disposal, transparency, delay
+    out.byte(0x21);
+    out.byte(0xf9);
+    out.byte(4);
+    out.byte((DISPOSAL_CODES[frame.disposal] << 2) | (frame.transparentIndex !== null ? 1 : 0));
+    out.uint16(Math.round(frame.delay / 10));
+    out.byte(frame.transparentIndex ?? 0);
+    out.byte(0);
+
+    // Image descriptor, always the full canvas
+    out.byte(0x2c);
+    out.uint16(0);
+    out.uint16(0);
+    out.uint16(width);
+    out.uint16(height);
+    out.byte(frame.palette ? 0x80 | (tableBits(frame.palette.length) - 1) : 0);
+    if (frame.palette) writeColorTable(out, frame.palette);
+
+    writeLzw(out, frame.indices, Math.max(2, tableBits(palette.length)));
+    onProgress?.(i + 1, frames.length);
+  });
+
+  out.byte(0x3b); // Trailer
+  return out.result();
+};
+
+// --- Worker protocol (see gifWorker.ts) ---
+
+export interface GifWorkerRequest {
+  width: number;
+  height: number;
+  images: ImageData[]; // Distinct rendered frames (key color mode)
+  frames: { image: number; delay: number }[]; // Playback order: index into images + delay in ms
+  palette: PaletteOptions;
+  keyColor: RGB | null;
+  repeat: number;
+}
+
+export type GifWorkerMessage =
+  | { type: 'progress'; progress: number } // 0-100
+  | { type: 'done'; data: Uint8Array }
+  | { type: 'error'; message: string };
@@ -0,0 +1,34 @@
+import { encodeGif, GifWorkerRequest, GifWorkerMessage } from "./gifEncoder";
+import { quantizeFrames } from "./palette";
+
+const post = (message: GifWorkerMessage, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+self.onmessage = (e: MessageEvent<GifWorkerRequest>) => {
+  const { width, height, images, frames, palette, keyColor, repeat } = e.data;
+  try {
+    // Quantization and encoding both scale with the pixel count; each gets half of the progress bar
+    const quantized = quantizeFrames(images, palette, keyColor, (done, total) => {
+      post({ type: 'progress', progress: Math.round((done / total) * 50) });
+    });
+
+    // A shared palette is written once as the global color table
+    const globalPalette = palette.mode === 'auto' ? null : quantized[0]?.palette ?? null;
+
+    const data = encodeGif(
+      { width, height, globalPalette, repeat },
+      frames.map(({ image, delay }) => ({
+        indices: quantized[image].indices,
+        palette: globalPalette ? null : quantized[image].palette,
+        transparentIndex: quantized[image].transparentIndex,
+        delay,
+        // Clear transparent frames so they don't pile up on top of each other
+        disposal: keyColor ? 'background' : 'unspecified',
+      })),
+      (done, total) => post({ type: 'progress', progress: 50 + Math.round((done / total) * 50) })
+    );
+
+    post({ type: 'done', data }, [data.buffer]);
+  } catch (error: any) {
+    post({ type: 'error', message: error.message || 'GIF 编码失败' });
+  }
+};
@@ -0,0 +1,115 @@
+import { RgbaBuffer } from "./framePipeline";
+
+/*
+ * Block matching for the 'stabilize' align mode. Pure like the frame pipeline, so it
+ * runs in the frame workers (see frameWorker.ts).
+ */
+
+// Frames larger than this (longest side) are matched on a downsampled copy first
+const COARSE_SIZE = 128;
+
+interface Plane {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+/**
+ * Alpha-weighted luminance of a keyed frame, centered in a plane of the common canvas
+ * size the way the renderer places frames, so a shift measured between planes is a
+ * shift on the output canvas.
+ */
+const buildPlane = ({ data, width: w, height: h }: RgbaBuffer, width: number, height: number): Plane => {
+  const plane = new Float32Array(width * height);
+  const left = Math.floor((width - w) / 2);
+  const top = Math.floor((height - h) / 2);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const idx = (y * w + x) * 4;
+      const luma = 0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2];
+      plane[(y + top) * width + (x + left)] = luma * data[idx + 3] / 255;
+    }
+  }
+  return { data: plane, width, height };
+};
+
+/**
+ * Box-filters a plane down by an integer factor.
+ */
+const downsample = (plane: Plane, factor: number): Plane => {
+  const width = Math.max(1, Math.floor(plane.width / factor));
+  const height = Math.max(1, Math.floor(plane.height / factor));
+  const data = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let dy = 0; dy < factor; dy++) {
+        for (let dx = 0; dx < factor; dx++) {
+          sum += plane.data[(y * factor + dy) * plane.width + (x * factor + dx)];
+        }
+      }
+      data[y * width + x] = sum / (factor * factor);
+    }
+  }
+  return { data, width, height };
+};
+
+/**
+ * Sum of absolute differences between a and b shifted by (sx, sy); pixels shifted in
+ * from outside count as empty. Stops early once it exceeds `limit`.
+ */
+const sad = (a: Plane, b: Plane, sx: number, sy: number, limit: number) => {
+  const { width, height } = a;
+  let sum = 0;
+  for (let y = 0; y < height; y++) {
+    const by = y + sy;
+    const rowInside = by >= 0 && by < height;
+    for (let x = 0; x < width; x++) {
+      const bx = x + sx;
+      const bv = rowInside && bx >= 0 && bx < width ? b.data[by * width + bx] : 0;
+      sum += Math.abs(a.data[y * width + x] - bv);
+    }
+    if (sum > limit) return sum;
+  }
+  return sum;
+};
+
+/**
+ * Shift of b relative to a within a square search window around (cx, cy).
+ * Ties go to the smallest shift, so flat frames don't drift.
+ */
+const bestShift = (a: Plane, b: Plane, cx: number, cy: number, radius: number) => {
+  let best = { sx: cx, sy: cy, score: sad(a, b, cx, cy, Infinity) };
+  for (let sy = cy - radius; sy <= cy + radius; sy++) {
+    for (let sx = cx - radius; sx <= cx + radius; sx++) {
+      if (sx === cx && sy === cy) continue;
+      const score = sad(a, b, sx, sy, best.score);
+      const closer = Math.abs(sx) + Math.abs(sy) < Math.abs(best.sx) + Math.abs(best.sy);
+      if (score < best.score || (score === best.score && closer)) {
+        best = { sx, sy, score };
+      }
+    }
+  }
+  return best;
+};
+
+/**
+ * How far the content of keyed `frame` moved relative to keyed `previous`, both placed
+ * on a width x height canvas, searched coarse-to-fine on large frames. b(x + s) matches
+ * a(x): the content moved by +s.
+ */
+export const estimateShift = (
+  previous: RgbaBuffer,
+  frame: RgbaBuffer,
+  width: number,
+  height: number,
+  radius: number
+): { sx: number; sy: number } => {
+  const a = buildPlane(previous, width, height);
+  const b = buildPlane(frame, width, height);
+  const factor = Math.ceil(Math.max(width, height) / COARSE_SIZE);
+  if (factor <= 1) return bestShift(a, b, 0, 0, radius);
+
+  const coarse = bestShift(downsample(a, factor), downsample(b, factor), 0, 0, Math.ceil(radius / factor));
+  return bestShift(a, b, coarse.sx * factor, coarse.sy * factor, factor);
+};
@@ -0,0 +1,385 @@
+import { PaletteOptions, DitherMethod } from "../types";
+import { RGB, hexToRgb } from "./frameRenderer";
+import { RgbaBuffer } from "./framePipeline";
+
+export interface QuantizedFrame {
+  palette: RGB[]; // Colors referenced by indices; the transparent color, if any, is last
+  indices: Uint8Array; // One palette index per pixel
+  transparentIndex: number | null;
+}
+
+// Swatch image pixels below this alpha count as transparent
+const ALPHA_THRESHOLD = 128;
+
+// 8x8 Bayer matrix, values 0-63
+const BAYER_8 = (() => {
+  const m = [[0]];
+  while (m.length < 8) {
+    const n = m.length;
+    const next: number[][] = Array.from({ length: n * 2 }, () => new Array(n * 2));
+    for (let y = 0; y < n; y++) {
+      for (let x = 0; x < n; x++) {
+        const v = m[y][x] * 4;
+        next[y][x] = v;
+        next[y][x + n] = v + 2;
+        next[y + n][x] = v + 3;
+        next[y + n][x + n] = v + 1;
+      }
+    }
+    m.splice(0, m.length, ...next);
+  }
+  return m;
+})();
+
+export const rgbToHex = ({ r, g, b }: RGB) =>
+  '#' + [r, g, b].map(v => v.toString(16).padStart(2, '0')).join('');
+
+const packRgb = (r: number, g: number, b: number) => (r << 16) | (g << 8) | b;
+
+const isKeyPixel = (data: Uint8ClampedArray, p: number, keyColor: RGB | null, alphaThreshold: number) =>
+  data[p + 3] < alphaThreshold ||
+  (keyColor !== null && data[p] === keyColor.r && data[p + 1] === keyColor.g && data[p + 2] === keyColor.b);
+
+/**
+ * Counts the opaque colors of the given frames. Key-colored and transparent pixels are skipped.
+ */
+const buildHistogram = (frames: RgbaBuffer[], keyColor: RGB | null, alphaThreshold: number) => {
+  const histogram = new Map<number, number>();
+  for (const { data } of frames) {
+    for (let p = 0; p < data.length; p += 4) {
+      if (isKeyPixel(data, p, keyColor, alphaThreshold)) continue;
+      const key = packRgb(data[p], data[p + 1], data[p + 2]);
+      histogram.set(key, (histogram.get(key) ?? 0) + 1);
+    }
+  }
+  return histogram;
+};
+
+interface ColorBox {
+  colors: { r: number; g: number; b: number; count: number }[];
+  channel: 'r' | 'g' | 'b'; // Widest channel
+  range: number;
+}
+
+const makeBox = (colors: ColorBox['colors']): ColorBox => {
+  let best: ColorBox = { colors, channel: 'r', range: -1 };
+  for (const channel of ['r', 'g', 'b'] as const) {
+    let min = 255, max = 0;
+    for (const color of colors) {
+      if (color[channel] < min) min = color[channel];
+      if (color[channel] > max) max = color[channel];
+    }
+    if (max - min > best.range) best = { colors, channel, range: max - min };
+  }
+  return best;
+};
+
+/**
+ * Median cut: repeatedly splits the box with the widest channel range at its weighted median.
+ */
+const medianCut = (histogram: Map<number, number>, maxColors: number): RGB[] => {
+  if (histogram.size === 0) return [];
+  const colors = [...histogram.entries()].map(([key, count]) => ({
+    r: (key >> 16) & 0xff, g: (key >> 8) & 0xff, b: key & 0xff, count,
+  }));
+  const boxes = [makeBox(colors)];
+
+  while (boxes.length < maxColors) {
+    let target = -1;
+    boxes.forEach((box, i) => {
+      if (box.colors.length > 1 && (target < 0 || box.range > boxes[target].range)) target = i;
+    });
+    if (target < 0) break;
+
+    const { colors: boxColors, channel } = boxes[target];
+    boxColors.sort((a, b) => a[channel] - b[channel]);
+    const total = boxColors.reduce((sum, c) => sum + c.count, 0);
+    let acc = 0;
+    let split = 1;
+    for (let i = 0; i < boxColors.length - 1; i++) {
+      acc += boxColors[i].count;
+      split = i + 1;
+      if (acc >= total / 2) break;
+    }
+    boxes.splice(target, 1, makeBox(boxColors.slice(0, split)), makeBox(boxColors.slice(split)));
+  }
+
+  return boxes.map(({ colors: boxColors }) => {
+    const total = boxColors.reduce((sum, c) => sum + c.count, 0);
+    return {
+      r: Math.round(boxColors.reduce((sum, c) => sum + c.r * c.count, 0) / total),
+      g: Math.round(boxColors.reduce((sum, c) => sum + c.g * c.count, 0) / total),
+      b: Math.round(boxColors.reduce((sum, c) => sum + c.b * c.count, 0) / total),
+    };
+  });
+};
+
+const nearestIndex = (palette: RGB[], r: number, g: number, b: number) => {
+  let best = 0;
+  let bestDist = Infinity;
+  for (let i = 0; i < palette.length; i++) {
+    const c = palette[i];
+    const dist = (r - c.r) * (r - c.r) + (g - c.g) * (g - c.g) + (b - c.b) * (b - c.b);
+    if (dist < bestDist) {
+      bestDist = dist;
+      best = i;
+    }
+  }
+  return best;
+};
+
+/**
+ * Keeps the `limit` colors of an imported palette that the frames use most.
+ */
+const limitCustomPalette = (colors: RGB[], histogram: Map<number, number>, limit: number): RGB[] => {
+  if (colors.length <= limit) return colors;
+  const usage = new Array(colors.length).fill(0);
+  for (const [key, count] of histogram) {
+    usage[nearestIndex(colors, (key >> 16) & 0xff, (key >> 8) & 0xff, key & 0xff)] += count;
+  }
+  return colors
+    .map((color, i) => ({ color, used: usage[i], i }))
+    .sort((a, b) => (b.used - a.used) || (a.i - b.i))
+    .slice(0, limit)
+    .sort((a, b) => a.i - b.i)
+    .map(({ color }) => color);
+};
+
+/**
+ * Content palette for a set of frames: median cut of their colors, or the imported
+ * palette in 'custom' mode. One slot is left for the transparent color when there is one.
+ */
+export const buildPalette = (frames: RgbaBuffer[], options: PaletteOptions, keyColor: RGB | null): RGB[] => {
+  const limit = Math.max(1, Math.min(256, options.maxColors) - (keyColor ? 1 : 0));
+  const histogram = buildHistogram(frames, keyColor, options.alphaThreshold);
+
+  if (options.mode === 'custom') {
+    const colors = options.colors.map(hexToRgb).filter((c): c is RGB => c !== null);
+    if (colors.length === 0) {
+      throw new Error("请先导入调色板");
+    }
+    return limitCustomPalette(colors, histogram, limit);
+  }
+
+  const palette = medianCut(histogram, limit);
+  // A fully transparent frame still needs one color
+  return palette.length > 0 ? palette : [{ r: 0, g: 0, b: 0 }];
+};
+
+/**
+ * Maps every pixel to the nearest palette color, optionally dithered, and writes the
+ * result back into `imageData`. Transparent (or key-colored) pixels keep the key color.
+ * GIF only has 1-bit transparency: pixels with less alpha than `alphaThreshold` become
+ * transparent, the rest opaque.
+ */
+export const quantizeImageData = (
+  imageData: RgbaBuffer,
+  palette: RGB[],
+  dither: DitherMethod,
+  keyColor: RGB | null,
+  alphaThreshold: number
+): QuantizedFrame => {
+  const { data, width, height } = imageData;
+  const fullPalette = keyColor ? [...palette, keyColor] : palette;
+  const transparentIndex = keyColor ? palette.length : null;
+  const indices = new Uint8Array(width * height);
+
+  // Floyd-Steinberg error carried to the following pixels
+  const errors = dither === 'floyd-steinberg' ? new Float32Array(width * height * 3) : null;
+  // Ordered dither strength: about one palette step per channel
+  const spread = 255 / Math.max(1, Math.cbrt(palette.length));
+  const cache = new Map<number, number>();
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const p = i * 4;
+
+      if (isKeyPixel(data, p, keyColor, alphaThreshold)) {
+        if (transparentIndex !== null) {
+          indices[i] = transparentIndex;
+          data[p] = keyColor!.r;
+          data[p + 1] = keyColor!.g;
+          data[p + 2] = keyColor!.b;
+        } else {
+          data[p + 3] = 0;
+        }
+        continue;
+      }
+
+      let r = data[p], g = data[p + 1], b = data[p + 2];
+      if (errors) {
+        r += errors[i * 3];
+        g += errors[i * 3 + 1];
+        b += errors[i * 3 + 2];
+      } else if (dither === 'bayer') {
+        const offset = ((BAYER_8[y & 7][x & 7] + 0.5) / 64 - 0.5) * spread;
+        r += offset;
+        g += offset;
+        b += offset;
+      }
+      r = Math.max(0, Math.min(255, Math.round(r)));
+      g = Math.max(0, Math.min(255, Math.round(g)));
+      b = Math.max(0, Math.min(255, Math.round(b)));
+
+      const key = packRgb(r, g, b);
+      let index = cache.get(key);
+      if (index === undefined) {
+        index = nearestIndex(palette, r, g, b);
+        cache.set(key, index);
+      }
+      const color = palette[index];
+
+      if (errors) {
+        const er = r - color.r, eg = g - color.g, eb = b - color.b;
+        const spreadError = (nx: number, ny: number, weight: number) => {
+          if (nx < 0 || nx >= width || ny >= height) return;
+          const n = (ny * width + nx) * 3;
+          errors[n] += er * weight;
+          errors[n + 1] += eg * weight;
+          errors[n + 2] += eb * weight;
+        };
+        spreadError(x + 1, y, 7 / 16);
+        spreadError(x - 1, y + 1, 3 / 16);
+        spreadError(x, y + 1, 5 / 16);
+        spreadError(x + 1, y + 1, 1 / 16);
+      }
+
+      indices[i] = index;
+      data[p] = color.r;
+      data[p + 1] = color.g;
+      data[p + 2] = color.b;
+      data[p + 3] = 255;
+    }
+  }
+
+  return { palette: fullPalette, indices, transparentIndex };
+};
+
+/**
+ * Quantizes a whole animation in place: one palette per frame ('auto') or one shared
+ * palette ('global' / 'custom'), so colors don't flicker between frames.
+ */
+export const quantizeFrames = (
+  frames: RgbaBuffer[],
+  options: PaletteOptions,
+  keyColor: RGB | null,
+  onProgress?: (done: number, total: number) => void
+): QuantizedFrame[] => {
+  const shared = options.mode === 'auto' ? null : buildPalette(frames, options, keyColor);
+  return frames.map((frame, i) => {
+    const palette = shared ?? buildPalette([frame], options, keyColor);
+    const quantized = quantizeImageData(frame, palette, options.dither, keyColor, options.alphaThreshold);
+    onProgress?.(i + 1, frames.length);
+    return quantized;
+  });
+};
+
+// --- Palette files ---
+
+const parseRgbLines = (lines: string[]): RGB[] => {
+  const colors: RGB[] = [];
+  for (const line of lines) {
+    const match = /^\s*(\d{1,3})\s+(\d{1,3})\s+(\d{1,3})/.exec(line);
+    if (match) {
+      colors.push({ r: Number(match[1]) & 0xff, g: Number(match[2]) & 0xff, b: Number(match[3]) & 0xff });
+    }
+  }
+  return colors;
+};
+
+// GIMP palette: header lines, then "R G B name"
+const parseGpl = (text: string) =>
+  parseRgbLines(text.split(/\r?\n/).filter(line => !/^\s*(#|GIMP Palette|Name:|Columns:)/.test(line)));
+
+// One RRGGBB per line (as exported by Lospec)
+const parseHex = (text: string) =>
+  text.split(/\r?\n/)
+    .map(line => hexToRgb(line.trim().replace(/^#/, '').slice(0, 6)))
+    .filter((c): c is RGB => c !== null);
+
+// JASC-PAL text, or a Microsoft RIFF palette
+const parsePal = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const ascii = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+  if (bytes.length >= 12 && ascii(0) === 'RIFF' && ascii(8) === 'PAL ') {
+    for (let offset = 12; offset + 8 <= bytes.length; offset += 8 + view.getUint32(offset + 4, true)) {
+      if (ascii(offset) !== 'data') continue;
+      const count = view.getUint16(offset + 10, true);
+      const colors: RGB[] = [];
+      for (let i = 0; i < count && offset + 12 + i * 4 + 3 <= bytes.length; i++) {
+        const entry = offset + 12 + i * 4;
+        colors.push({ r: bytes[entry], g: bytes[entry + 1], b: bytes[entry + 2] });
+      }
+      return colors;
+    }
+    return [];
+  }
+
+  const lines = new TextDecoder().decode(bytes).split(/\r?\n/);
+  // Skip "JASC-PAL", version and count
+  return parseRgbLines(lines[0]?.trim() === 'JASC-PAL' ? lines.slice(3) : lines);
+};
+
+// Every distinct opaque color of a swatch image, in reading order
+const parsePngSwatch = async (file: File) => {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error("色板图片加载失败"));
+      img.src = url;
+    });
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error("Could not create canvas context");
+    ctx.drawImage(image, 0, 0);
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+    const seen = new Set<number>();
+    const colors: RGB[] = [];
+    for (let p = 0; p < data.length; p += 4) {
+      if (data[p + 3] < ALPHA_THRESHOLD) continue;
+      const key = packRgb(data[p], data[p + 1], data[p + 2]);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      colors.push({ r: data[p], g: data[p + 1], b: data[p + 2] });
+      if (colors.length > 256) {
+        throw new Error("色板图片的颜色超过 256 种");
+      }
+    }
+    return colors;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Reads a palette file (.gpl, .pal, .hex or a PNG swatch) into hex colors.
+ */
+export const parsePaletteFile = async (file: File): Promise<string[]> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  let colors: RGB[];
+
+  if (extension === 'png') {
+    colors = await parsePngSwatch(file);
+  } else if (extension === 'pal') {
+    colors = parsePal(new Uint8Array(await file.arrayBuffer()));
+  } else if (extension === 'gpl') {
+    colors = parseGpl(await file.text());
+  } else if (extension === 'hex' || extension === 'txt') {
+    colors = parseHex(await file.text());
+  } else {
+    throw new Error("不支持的调色板格式，请使用 .gpl / .pal / .hex / .png");
+  }
+
+  if (colors.length === 0) {
+    throw new Error("调色板中未找到颜色");
+  }
+  // Duplicates would only waste palette slots
+  return [...new Set(colors.map(rgbToHex))].slice(0, 256);
+};
@@ -0,0 +1,60 @@
+import { SpriteConfig, FrameRect, PivotPoint, ExportFile } from "../types";
+import { BoundingBox, EncodedAnimation } from "./frameRenderer";
+
+/**
+ * Pivot of a frame in frame-local source pixels. An explicit per-frame pivot wins,
+ * otherwise the preset derives one from the content bbox (or the whole rect if the
+ * frame is empty).
+ */
+export const resolvePivot = (
+  config: SpriteConfig,
+  source: FrameRect & { originalIndex: number },
+  bbox: Pick<BoundingBox, 'minX' | 'minY' | 'width' | 'height'> | null
+): PivotPoint => {
+  const explicit = config.framePivots[source.originalIndex];
+  if (explicit) return explicit;
+
+  if (config.pivotPreset === 'fixed') return config.pivotPoint;
+
+  const box = bbox ?? { minX: 0, minY: 0, width: source.width, height: source.height };
+  const x = box.minX + box.width / 2;
+  if (config.pivotPreset === 'center') {
+    return { x, y: box.minY + box.height / 2 };
+  }
+  // Bottom-center: the feet of a character standing on the bottom edge of its bbox
+  return { x, y: box.minY + box.height };
+};
+
+/**
+ * Rounds a pivot for JSON output: pixels to 2 decimals, normalized values to 4.
+ */
+export const describePivot = (pivot: PivotPoint, width: number, height: number) => ({
+  pivot: { x: Math.round(pivot.x * 100) / 100, y: Math.round(pivot.y * 100) / 100 },
+  pivotNormalized: {
+    x: width > 0 ? Math.round((pivot.x / width) * 10000) / 10000 : 0,
+    y: height > 0 ? Math.round((pivot.y / height) * 10000) / 10000 : 0,
+  },
+});
+
+/**
+ * `<name>.pivot.json` for an animated export: the output canvas size and, for every
+ * frame in the order it was encoded, how long it plays and where its pivot lies, in
+ * pixels and normalized to the canvas.
+ */
+export const buildPivotSidecar = ({ width, height, frames }: EncodedAnimation, config: SpriteConfig, baseName: string): ExportFile => {
+  const json = {
+    width,
+    height,
+    playbackMode: config.playbackMode,
+    frames: frames.map(({ originalIndex, delay, pivot }, i) => ({
+      index: i,
+      originalIndex,
+      duration: Math.round(delay),
+      ...describePivot(pivot, width, height),
+    })),
+  };
+  return {
+    name: `${baseName}.pivot.json`,
+    blob: new Blob([JSON.stringify(json, null, 2)], { type: 'application/json' }),
+  };
+};
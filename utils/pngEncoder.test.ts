@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { PNG_SIGNATURE, encodePng, filterScanlines, makeChunk } from "./pngEncoder";
+import { crc32 } from "./binary";
+
+const inflate = async (data: Uint8Array, format: CompressionFormat) =>
+  new Uint8Array(await new Response(new Blob([data]).stream().pipeThrough(new DecompressionStream(format))).arrayBuffer());
+
+const readChunks = (png: Uint8Array) => {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks: { type: string; data: Uint8Array; crc: number }[] = [];
+  for (let offset = PNG_SIGNATURE.length; offset < png.length;) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    const data = png.subarray(offset + 8, offset + 8 + length);
+    chunks.push({ type, data, crc: view.getUint32(offset + 8 + length) });
+    offset += 12 + length;
+  }
+  return chunks;
+};
+
+const paeth = (a: number, b: number, c: number) => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+};
+
+// Reverses filterScanlines (RGBA, 8 bits per channel)
+const unfilter = (filtered: Uint8Array, width: number, height: number) => {
+  const stride = width * 4;
+  const out = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = filtered[y * (stride + 1)];
+    for (let i = 0; i < stride; i++) {
+      const raw = filtered[y * (stride + 1) + 1 + i];
+      const left = i >= 4 ? out[y * stride + i - 4] : 0;
+      const up = y > 0 ? out[(y - 1) * stride + i] : 0;
+      const upLeft = y > 0 && i >= 4 ? out[(y - 1) * stride + i - 4] : 0;
+      const predictor = [0, left, up, (left + up) >> 1, paeth(left, up, upLeft)][filter];
+      out[y * stride + i] = (raw + predictor) & 0xff;
+    }
+  }
+  return out;
+};
+
+const createImage = (width: number, height: number, pixel: (x: number, y: number) => number[]) => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) data.set(pixel(x, y), (y * width + x) * 4);
+  }
+  return { data, width, height } as ImageData;
+};
+
+describe("makeChunk", () => {
+  it("writes length, type, data and the CRC of type + data", () => {
+    const chunk = makeChunk('tEXt', new Uint8Array([1, 2, 3]));
+    const view = new DataView(chunk.buffer);
+    expect(chunk.length).toBe(15);
+    expect(view.getUint32(0)).toBe(3);
+    expect(String.fromCharCode(...chunk.subarray(4, 8))).toBe('tEXt');
+    expect(Array.from(chunk.subarray(8, 11))).toEqual([1, 2, 3]);
+    expect(view.getUint32(11)).toBe(crc32(chunk.subarray(4, 11)));
+  });
+});
+
+describe("filterScanlines", () => {
+  it("round-trips through every filter type", () => {
+    const image = createImage(9, 7, (x, y) => [(x * 37 + y * 11) & 0xff, (x * y * 5) & 0xff, y < 3 ? 200 : x * 20, (x + y) % 3 === 0 ? 0 : 255]);
+    const filtered = filterScanlines(image.data, image.width, image.height);
+    expect(filtered.length).toBe((9 * 4 + 1) * 7);
+    expect(unfilter(filtered, 9, 7)).toEqual(new Uint8Array(image.data));
+  });
+
+  it("picks the Up filter for a row repeating the previous one", () => {
+    const image = createImage(6, 2, x => [x * 40, 255 - x * 30, x * 7, 255]);
+    const filtered = filterScanlines(image.data, 6, 2);
+    expect(filtered[6 * 4 + 1]).toBe(2);
+    expect(filtered.subarray(6 * 4 + 2).every(value => value === 0)).toBe(true);
+  });
+});
+
+describe("encodePng", () => {
+  it("writes a valid RGBA PNG that decodes to the same pixels", async () => {
+    const image = createImage(5, 3, (x, y) => [x * 50, y * 100, 255 - x * 10, x === y ? 0 : 128 + x]);
+    const png = await encodePng(image);
+
+    expect(Array.from(png.subarray(0, 8))).toEqual(Array.from(PNG_SIGNATURE));
+    const chunks = readChunks(png);
+    expect(chunks.map(chunk => chunk.type)).toEqual(['IHDR', 'IDAT', 'IEND']);
+    for (const chunk of chunks) {
+      const typeAndData = new Uint8Array([...chunk.type].map(c => c.charCodeAt(0)).concat(Array.from(chunk.data)));
+      expect(chunk.crc).toBe(crc32(typeAndData));
+    }
+
+    const ihdr = new DataView(chunks[0].data.buffer, chunks[0].data.byteOffset, 13);
+    expect([ihdr.getUint32(0), ihdr.getUint32(4)]).toEqual([5, 3]);
+    expect(Array.from(chunks[0].data.subarray(8))).toEqual([8, 6, 0, 0, 0]);
+
+    const pixels = unfilter(await inflate(chunks[1].data, 'deflate'), 5, 3);
+    expect(pixels).toEqual(new Uint8Array(image.data));
+  });
+});
@@ -0,0 +1,98 @@
+import { crc32, compress, concatBytes, asciiBytes } from "./binary";
+
+export const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/**
+ * Builds a PNG chunk: length + type + data + CRC(type + data).
+ */
+export const makeChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(asciiBytes(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+const paeth = (a: number, b: number, c: number) => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  if (pb <= pc) return b;
+  return c;
+};
+
+/**
+ * Converts RGBA pixels into filtered PNG scanlines.
+ * Each row picks the filter with the smallest sum of absolute values (the usual libpng heuristic).
+ */
+export const filterScanlines = (data: Uint8ClampedArray, width: number, height: number): Uint8Array => {
+  const stride = width * 4;
+  const out = new Uint8Array((stride + 1) * height);
+  const candidates = Array.from({ length: 5 }, () => new Uint8Array(stride));
+
+  for (let y = 0; y < height; y++) {
+    const row = y * stride;
+    const prev = row - stride;
+
+    for (let i = 0; i < stride; i++) {
+      const raw = data[row + i];
+      const left = i >= 4 ? data[row + i - 4] : 0;
+      const up = y > 0 ? data[prev + i] : 0;
+      const upLeft = y > 0 && i >= 4 ? data[prev + i - 4] : 0;
+
+      candidates[0][i] = raw;
+      candidates[1][i] = raw - left;
+      candidates[2][i] = raw - up;
+      candidates[3][i] = raw - ((left + up) >> 1);
+      candidates[4][i] = raw - paeth(left, up, upLeft);
+    }
+
+    let bestFilter = 0;
+    let bestSum = Infinity;
+    for (let f = 0; f < 5; f++) {
+      let sum = 0;
+      const line = candidates[f];
+      for (let i = 0; i < stride; i++) {
+        const v = line[i];
+        sum += v < 128 ? v : 256 - v;
+      }
+      if (sum < bestSum) {
+        bestSum = sum;
+        bestFilter = f;
+      }
+    }
+
+    const outRow = y * (stride + 1);
+    out[outRow] = bestFilter;
+    out.set(candidates[bestFilter], outRow + 1);
+  }
+
+  return out;
+};
+
+/**
+ * Encodes RGBA pixels as a standalone 8-bit truecolor + alpha PNG file.
+ */
+export const encodePng = async (imageData: ImageData): Promise<Uint8Array> => {
+  const { width, height, data } = imageData;
+
+  const ihdr = new Uint8Array(13);
+  const ihdrView = new DataView(ihdr.buffer);
+  ihdrView.setUint32(0, width);
+  ihdrView.setUint32(4, height);
+  ihdr[8] = 8; // Bit depth
+  ihdr[9] = 6; // Color type: truecolor with alpha
+
+  const idat = await compress(filterScanlines(data, width, height), 'deflate');
+
+  return concatBytes([
+    PNG_SIGNATURE,
+    makeChunk('IHDR', ihdr),
+    makeChunk('IDAT', idat),
+    makeChunk('IEND', new Uint8Array(0)),
+  ]);
+};
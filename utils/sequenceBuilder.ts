@@ -0,0 +1,55 @@
+import { SpriteConfig, ImageDimensions, SequenceOptions, ExportProgressHandler } from "../types";
+import { renderFrames } from "./framePool";
+import { encodePng } from "./pngEncoder";
+import { describePivot } from "./pivots";
+import { createZip, ZipEntry } from "./zipWriter";
+
+const frameFileName = (index: number) => `frame_${String(index).padStart(3, '0')}.png`;
+
+/**
+ * Exports every processed frame as its own PNG, bundled into a ZIP archive.
+ */
+export const generatePngSequence = async (
+  image: HTMLImageElement,
+  config: SpriteConfig,
+  dimensions: ImageDimensions,
+  options: SequenceOptions,
+  onProgress: ExportProgressHandler
+): Promise<Blob> => {
+  const { width, height, frames } = await renderFrames(image, config, dimensions, 'alpha', onProgress);
+
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < frames.length; i++) {
+    entries.push({ name: frameFileName(i), data: await encodePng(frames[i].imageData) });
+    // Leave the last few percent for the archive itself
+    onProgress(Math.round(((i + 1) / frames.length) * 95), 'encoding');
+  }
+
+  if (options.includeManifest) {
+    const manifest = {
+      width,
+      height,
+      fps: config.fps,
+      playbackMode: config.playbackMode,
+      loopCount: config.loopCount,
+      frames: frames.map((frame, i) => ({
+        file: frameFileName(i),
+        originalIndex: frame.originalIndex,
+        r: frame.r,
+        c: frame.c,
+        duration: Math.round(frame.delay),
+        ...describePivot(frame.pivot, width, height),
+      })),
+    };
+    entries.push({
+      name: 'manifest.json',
+      data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)),
+      deflate: true,
+    });
+  }
+
+  const zip = await createZip(entries);
+  onProgress(100, 'encoding');
+  return zip;
+};
@@ -0,0 +1,187 @@
+import { describe, it, expect } from "vitest";
+import { encodeVp8l } from "./vp8lEncoder";
+
+const CODE_LENGTH_CODE_ORDER = [17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15];
+
+// LSB-first, as in the VP8L spec
+const createBitReader = (bytes: Uint8Array) => {
+  let position = 0;
+  const readBits = (n: number) => {
+    let value = 0;
+    for (let i = 0; i < n; i++, position++) {
+      if (position >= bytes.length * 8) throw new Error("Bitstream ended early");
+      value |= ((bytes[position >> 3] >> (position & 7)) & 1) << i;
+    }
+    return value;
+  };
+  return { readBits, bitsLeft: () => bytes.length * 8 - position };
+};
+
+type BitReader = ReturnType<typeof createBitReader>;
+
+// Canonical prefix code from code lengths; a single used symbol takes zero bits
+const createDecoder = (lengths: number[], reader: BitReader) => {
+  const used = lengths.map((length, symbol) => ({ length, symbol })).filter(entry => entry.length > 0);
+  if (used.length === 0) throw new Error("Empty prefix code");
+  if (used.length === 1) return () => used[0].symbol;
+
+  used.sort((a, b) => a.length - b.length || a.symbol - b.symbol);
+  const table = new Map<string, number>();
+  let code = 0;
+  let previousLength = used[0].length;
+  for (const { length, symbol } of used) {
+    code <<= length - previousLength;
+    previousLength = length;
+    table.set(`${length}:${code}`, symbol);
+    code++;
+  }
+  expect(code).toBe(1 << previousLength); // Complete code
+
+  return () => {
+    let value = 0;
+    for (let length = 1; length <= 15; length++) {
+      value = (value << 1) | reader.readBits(1);
+      const symbol = table.get(`${length}:${value}`);
+      if (symbol !== undefined) return symbol;
+    }
+    throw new Error("Invalid prefix code");
+  };
+};
+
+const readPrefixCode = (reader: BitReader, alphabetSize: number) => {
+  const lengths = new Array(alphabetSize).fill(0);
+  if (reader.readBits(1) === 1) {
+    const count = reader.readBits(1) + 1;
+    const first = reader.readBits(reader.readBits(1) === 1 ? 8 : 1);
+    lengths[first] = 1;
+    if (count === 2) lengths[reader.readBits(8)] = 1;
+    return createDecoder(lengths, reader);
+  }
+
+  const codeLengthLengths = new Array(19).fill(0);
+  const numCodes = 4 + reader.readBits(4);
+  for (let i = 0; i < numCodes; i++) codeLengthLengths[CODE_LENGTH_CODE_ORDER[i]] = reader.readBits(3);
+  expect(reader.readBits(1)).toBe(0); // max_symbol is the alphabet size
+  const readCodeLength = createDecoder(codeLengthLengths, reader);
+
+  let previous = 8;
+  for (let symbol = 0; symbol < alphabetSize;) {
+    const code = readCodeLength();
+    if (code < 16) {
+      lengths[symbol++] = code;
+      if (code !== 0) previous = code;
+    } else {
+      const [value, repeat] = code === 16 ? [previous, 3 + reader.readBits(2)]
+        : code === 17 ? [0, 3 + reader.readBits(3)]
+        : [0, 11 + reader.readBits(7)];
+      if (symbol + repeat > alphabetSize) throw new Error("Code lengths overflow the alphabet");
+      for (let i = 0; i < repeat; i++) lengths[symbol++] = value;
+    }
+  }
+  return createDecoder(lengths, reader);
+};
+
+const readLz77Value = (symbol: number, reader: BitReader) => {
+  if (symbol < 4) return symbol + 1;
+  const extraBits = (symbol - 2) >> 1;
+  const offset = (2 + (symbol & 1)) << extraBits;
+  return offset + reader.readBits(extraBits) + 1;
+};
+
+// Decodes the subset of VP8L the encoder writes, back to RGBA
+const decodeVp8l = (bytes: Uint8Array) => {
+  const reader = createBitReader(bytes);
+  expect(reader.readBits(8)).toBe(0x2f);
+  const width = reader.readBits(14) + 1;
+  const height = reader.readBits(14) + 1;
+  const alphaUsed = reader.readBits(1) === 1;
+  expect(reader.readBits(3)).toBe(0);
+
+  expect(reader.readBits(1)).toBe(1);
+  expect(reader.readBits(2)).toBe(2); // SUBTRACT_GREEN
+  expect(reader.readBits(1)).toBe(0);
+  expect(reader.readBits(1)).toBe(0); // No color cache
+  expect(reader.readBits(1)).toBe(0); // No meta prefix codes
+
+  const green = readPrefixCode(reader, 256 + 24);
+  const red = readPrefixCode(reader, 256);
+  const blue = readPrefixCode(reader, 256);
+  const alpha = readPrefixCode(reader, 256);
+  const distance = readPrefixCode(reader, 40);
+
+  const count = width * height;
+  const argb = new Uint32Array(count);
+  for (let i = 0; i < count;) {
+    const g = green();
+    if (g < 256) {
+      const r = red(), b = blue(), a = alpha();
+      argb[i++] = ((a << 24) | (r << 16) | (g << 8) | b) >>> 0;
+      continue;
+    }
+    const length = readLz77Value(g - 256, reader);
+    const code = readLz77Value(distance(), reader);
+    const dist = code === 1 ? width : code === 2 ? 1 : code > 120 ? code - 120 : NaN;
+    if (!(dist >= 1 && dist <= i)) throw new Error(`Unexpected distance code ${code}`);
+    if (i + length > count) throw new Error("Backward reference runs past the image");
+    for (let j = 0; j < length; j++, i++) argb[i] = argb[i - dist];
+  }
+  expect(reader.bitsLeft()).toBeLessThan(8);
+
+  const data = new Uint8ClampedArray(count * 4);
+  for (let i = 0; i < count; i++) {
+    const g = (argb[i] >>> 8) & 0xff;
+    data[i * 4] = ((argb[i] >>> 16) + g) & 0xff;
+    data[i * 4 + 1] = g;
+    data[i * 4 + 2] = (argb[i] + g) & 0xff;
+    data[i * 4 + 3] = argb[i] >>> 24;
+  }
+  return { width, height, alphaUsed, data };
+};
+
+const createImage = (width: number, height: number, pixel: (x: number, y: number) => number[]) => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) data.set(pixel(x, y), (y * width + x) * 4);
+  }
+  return { data, width, height } as ImageData;
+};
+
+const roundTrip = (image: ImageData) => {
+  const decoded = decodeVp8l(encodeVp8l(image));
+  expect([decoded.width, decoded.height]).toEqual([image.width, image.height]);
+  expect(decoded.data).toEqual(image.data);
+  return decoded;
+};
+
+describe("encodeVp8l", () => {
+  it("round-trips a single pixel", () => {
+    const decoded = roundTrip(createImage(1, 1, () => [12, 200, 34, 255]));
+    expect(decoded.alphaUsed).toBe(false);
+  });
+
+  it("round-trips a flat image through backward references", () => {
+    const image = createImage(64, 48, () => [0, 255, 0, 255]);
+    roundTrip(image);
+    // A run this long costs far less than one literal per pixel
+    expect(encodeVp8l(image).length).toBeLessThan(100);
+  });
+
+  it("round-trips varied pixels with transparency", () => {
+    let seed = 7;
+    const random = () => (seed = (Math.imul(seed, 1103515245) + 12345) >>> 0) >>> 24;
+    const decoded = roundTrip(createImage(37, 23, (x, y) => [random(), (x * 7) & 0xff, random(), y % 5 === 0 ? 0 : 255]));
+    expect(decoded.alphaUsed).toBe(true);
+  });
+
+  it("round-trips repeating rows and tiles", () => {
+    roundTrip(createImage(50, 40, (x, y) => [(x * 13) & 0xff, (x * 29) & 0xff, (x * 3) & 0xff, x % 4 ? 255 : 128 + (y % 2)]));
+    roundTrip(createImage(90, 70, (x, y) => {
+      const tile = ((x % 9) * 17 + (y % 6) * 41) & 0xff;
+      return [tile, 255 - tile, (tile * 3) & 0xff, 255];
+    }));
+  });
+
+  it("rejects images beyond the WebP size limit", () => {
+    expect(() => encodeVp8l({ data: new Uint8ClampedArray(0), width: 16385, height: 1 } as ImageData)).toThrow("16384");
+  });
+});
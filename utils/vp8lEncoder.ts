@@ -0,0 +1,431 @@
+// Minimal WebP lossless (VP8L) bitstream encoder.
+// Uses the subtract-green transform, greedy LZ77 backward references and
+// one set of canonical prefix codes for the whole image (no color cache, no meta codes).
+
+const MAX_DIMENSION = 16384;
+const NUM_LENGTH_CODES = 24;
+const NUM_DISTANCE_CODES = 40;
+const MAX_LENGTH = 4096;
+const MIN_MATCH = 3;
+// Largest plain distance that still fits in the 40 distance prefix codes (codes 1-120 are 2D neighbours)
+const MAX_DISTANCE = (1 << 20) - 120;
+const HASH_BITS = 16;
+
+const CODE_LENGTH_CODE_ORDER = [17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15];
+
+/**
+ * LSB-first bit writer, as required by the VP8L bitstream.
+ */
+class BitWriter {
+  private buffer = new Uint8Array(1 << 16);
+  private length = 0;
+  private acc = 0;
+  private used = 0;
+
+  writeBits(value: number, nbits: number) {
+    if (nbits === 0) return;
+    this.acc |= value << this.used;
+    this.used += nbits;
+    while (this.used >= 8) {
+      this.pushByte(this.acc & 0xff);
+      this.acc >>>= 8;
+      this.used -= 8;
+    }
+  }
+
+  finish(): Uint8Array {
+    if (this.used > 0) {
+      this.pushByte(this.acc & 0xff);
+      this.acc = 0;
+      this.used = 0;
+    }
+    return this.buffer.slice(0, this.length);
+  }
+
+  private pushByte(byte: number) {
+    if (this.length === this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2);
+      grown.set(this.buffer);
+      this.buffer = grown;
+    }
+    this.buffer[this.length++] = byte;
+  }
+}
+
+interface PrefixCode {
+  lengths: Uint8Array;
+  codes: Uint16Array;
+  single: boolean; // A code with only one used symbol is written with zero bits
+}
+
+/**
+ * Builds Huffman code lengths limited to maxLength bits.
+ * When the tree gets too deep, small counts are flattened and the tree is rebuilt.
+ */
+const buildCodeLengths = (freqs: ArrayLike<number>, maxLength: number): Uint8Array => {
+  const size = freqs.length;
+  const lengths = new Uint8Array(size);
+  const symbols: number[] = [];
+  for (let s = 0; s < size; s++) {
+    if (freqs[s] > 0) symbols.push(s);
+  }
+
+  if (symbols.length === 0) return lengths;
+  if (symbols.length === 1) {
+    lengths[symbols[0]] = 1;
+    return lengths;
+  }
+
+  for (let countMin = 1; ; countMin *= 2) {
+    // Leaves are nodes [0, n), internal nodes are appended after them
+    const weights: number[] = symbols.map(s => Math.max(freqs[s], countMin));
+    const parents: number[] = new Array(symbols.length).fill(-1);
+    const leaves = symbols.map((_, i) => i).sort((a, b) => weights[a] - weights[b]);
+    const internals: number[] = [];
+    let leafHead = 0;
+    let internalHead = 0;
+
+    const takeSmallest = () => {
+      if (
+        internalHead >= internals.length ||
+        (leafHead < leaves.length && weights[leaves[leafHead]] <= weights[internals[internalHead]])
+      ) {
+        return leaves[leafHead++];
+      }
+      return internals[internalHead++];
+    };
+
+    for (let merges = 0; merges < symbols.length - 1; merges++) {
+      const a = takeSmallest();
+      const b = takeSmallest();
+      const node = weights.length;
+      weights.push(weights[a] + weights[b]);
+      parents.push(-1);
+      parents[a] = node;
+      parents[b] = node;
+      internals.push(node);
+    }
+
+    let maxDepth = 0;
+    const depths = new Array(weights.length).fill(0);
+    for (let node = weights.length - 2; node >= 0; node--) {
+      depths[node] = depths[parents[node]] + 1;
+    }
+    for (let i = 0; i < symbols.length; i++) {
+      maxDepth = Math.max(maxDepth, depths[i]);
+    }
+
+    if (maxDepth <= maxLength) {
+      for (let i = 0; i < symbols.length; i++) {
+        lengths[symbols[i]] = depths[i];
+      }
+      return lengths;
+    }
+  }
+};
+
+const reverseBits = (code: number, length: number) => {
+  let out = 0;
+  for (let i = 0; i < length; i++) {
+    out = (out << 1) | ((code >> i) & 1);
+  }
+  return out;
+};
+
+/**
+ * Assigns canonical codes (shorter first, then by symbol) and bit-reverses them for LSB-first output.
+ */
+const buildPrefixCode = (lengths: Uint8Array): PrefixCode => {
+  const blCount = new Array(16).fill(0);
+  let used = 0;
+  for (let s = 0; s < lengths.length; s++) {
+    if (lengths[s] > 0) {
+      blCount[lengths[s]]++;
+      used++;
+    }
+  }
+
+  const nextCode = new Array(16).fill(0);
+  let code = 0;
+  for (let bits = 1; bits < 16; bits++) {
+    code = (code + blCount[bits - 1]) << 1;
+    nextCode[bits] = code;
+  }
+
+  const codes = new Uint16Array(lengths.length);
+  for (let s = 0; s < lengths.length; s++) {
+    const len = lengths[s];
+    if (len > 0) {
+      codes[s] = reverseBits(nextCode[len]++, len);
+    }
+  }
+
+  return { lengths, codes, single: used <= 1 };
+};
+
+const writeSymbol = (writer: BitWriter, code: PrefixCode, symbol: number) => {
+  if (code.single) return;
+  writer.writeBits(code.codes[symbol], code.lengths[symbol]);
+};
+
+interface LengthToken {
+  symbol: number;
+  extraBits: number;
+  extra: number;
+}
+
+/**
+ * Run-length encodes code lengths with the 16 (repeat previous), 17 and 18 (repeat zero) symbols.
+ */
+const tokenizeCodeLengths = (lengths: Uint8Array): LengthToken[] => {
+  const tokens: LengthToken[] = [];
+  let prev = 8; // Initial "previous non-zero length" defined by the format
+  let i = 0;
+
+  while (i < lengths.length) {
+    const value = lengths[i];
+    let run = 1;
+    while (i + run < lengths.length && lengths[i + run] === value) run++;
+    i += run;
+
+    if (value === 0) {
+      while (run >= 11) {
+        const r = Math.min(run, 138);
+        tokens.push({ symbol: 18, extraBits: 7, extra: r - 11 });
+        run -= r;
+      }
+      if (run >= 3) {
+        tokens.push({ symbol: 17, extraBits: 3, extra: run - 3 });
+        run = 0;
+      }
+    } else {
+      if (value !== prev) {
+        tokens.push({ symbol: value, extraBits: 0, extra: 0 });
+        prev = value;
+        run--;
+      }
+      while (run >= 3) {
+        const r = Math.min(run, 6);
+        tokens.push({ symbol: 16, extraBits: 2, extra: r - 3 });
+        run -= r;
+      }
+    }
+
+    for (; run > 0; run--) {
+      tokens.push({ symbol: value, extraBits: 0, extra: 0 });
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * Writes a prefix code definition: the "simple" form for up to two 8-bit symbols, the normal form otherwise.
+ */
+const writePrefixCode = (writer: BitWriter, lengths: Uint8Array) => {
+  const used: number[] = [];
+  for (let s = 0; s < lengths.length; s++) {
+    if (lengths[s] > 0) used.push(s);
+  }
+
+  if (used.length <= 2 && used.every(s => s < 256)) {
+    const first = used.length > 0 ? used[0] : 0;
+    writer.writeBits(1, 1); // Simple code
+    writer.writeBits(Math.max(used.length, 1) - 1, 1);
+    if (first < 2) {
+      writer.writeBits(0, 1);
+      writer.writeBits(first, 1);
+    } else {
+      writer.writeBits(1, 1);
+      writer.writeBits(first, 8);
+    }
+    if (used.length === 2) {
+      writer.writeBits(used[1], 8);
+    }
+    return;
+  }
+
+  const tokens = tokenizeCodeLengths(lengths);
+  const freqs = new Array(19).fill(0);
+  for (const token of tokens) freqs[token.symbol]++;
+
+  const clLengths = buildCodeLengths(freqs, 7);
+  const clCode = buildPrefixCode(clLengths);
+
+  let numCodes = 19;
+  while (numCodes > 4 && clLengths[CODE_LENGTH_CODE_ORDER[numCodes - 1]] === 0) numCodes--;
+
+  writer.writeBits(0, 1); // Normal code
+  writer.writeBits(numCodes - 4, 4);
+  for (let i = 0; i < numCodes; i++) {
+    writer.writeBits(clLengths[CODE_LENGTH_CODE_ORDER[i]], 3);
+  }
+  writer.writeBits(0, 1); // max_symbol = alphabet size
+
+  for (const token of tokens) {
+    writeSymbol(writer, clCode, token.symbol);
+    writer.writeBits(token.extra, token.extraBits);
+  }
+};
+
+/**
+ * Maps a length or distance value (>= 1) to its prefix symbol and extra bits.
+ */
+const prefixEncode = (value: number): LengthToken => {
+  const v = value - 1;
+  if (v < 4) return { symbol: v, extraBits: 0, extra: 0 };
+  const highBit = 31 - Math.clz32(v);
+  const second = (v >> (highBit - 1)) & 1;
+  const extraBits = highBit - 1;
+  return { symbol: 2 * highBit + second, extraBits, extra: v & ((1 << extraBits) - 1) };
+};
+
+/**
+ * Encodes RGBA pixels as a VP8L bitstream (the payload of a 'VP8L' chunk).
+ */
+export const encodeVp8l = (imageData: ImageData): Uint8Array => {
+  const { width, height, data } = imageData;
+
+  if (width > MAX_DIMENSION || height > MAX_DIMENSION) {
+    throw new Error(`WebP 尺寸不能超过 ${MAX_DIMENSION}px`);
+  }
+
+  // ARGB pixels with the subtract-green transform applied
+  const count = width * height;
+  const pixels = new Uint32Array(count);
+  let alphaUsed = false;
+  for (let i = 0; i < count; i++) {
+    const p = i * 4;
+    const r = data[p], g = data[p + 1], b = data[p + 2], a = data[p + 3];
+    if (a !== 255) alphaUsed = true;
+    pixels[i] = ((a << 24) | (((r - g) & 0xff) << 16) | (g << 8) | ((b - g) & 0xff)) >>> 0;
+  }
+
+  // --- LZ77 (greedy) ---
+  // Each token is either a literal pixel (length 0) or a backward reference (length, distance code)
+  const tokenLengths: number[] = [];
+  const tokenValues: number[] = [];
+
+  const hashTable = new Int32Array(1 << HASH_BITS);
+  const hashAt = (i: number) =>
+    (Math.imul(pixels[i], 0x1e35a7bd) ^ Math.imul(pixels[i + 1], 0x9e3779b1)) >>> (32 - HASH_BITS);
+
+  const matchLength = (pos: number, candidate: number) => {
+    const limit = Math.min(MAX_LENGTH, count - pos);
+    let len = 0;
+    while (len < limit && pixels[candidate + len] === pixels[pos + len]) len++;
+    return len;
+  };
+
+  let i = 0;
+  while (i < count) {
+    let bestLength = 0;
+    let bestDistance = 0;
+
+    const candidates: number[] = [];
+    if (i >= 1) candidates.push(i - 1);
+    if (i >= width) candidates.push(i - width);
+    if (i + 1 < count) {
+      const hashed = hashTable[hashAt(i)] - 1;
+      if (hashed >= 0) candidates.push(hashed);
+    }
+
+    for (const candidate of candidates) {
+      const distance = i - candidate;
+      if (distance > MAX_DISTANCE) continue;
+      const len = matchLength(i, candidate);
+      if (len > bestLength) {
+        bestLength = len;
+        bestDistance = distance;
+      }
+    }
+
+    const step = bestLength >= MIN_MATCH ? bestLength : 1;
+    for (let j = i; j < i + step && j + 1 < count; j++) {
+      hashTable[hashAt(j)] = j + 1;
+    }
+
+    if (bestLength >= MIN_MATCH) {
+      // Distance codes 1 and 2 are the pixel above and the pixel to the left; others are offset by 120
+      const distanceCode = bestDistance === width ? 1 : bestDistance === 1 ? 2 : bestDistance + 120;
+      tokenLengths.push(bestLength);
+      tokenValues.push(distanceCode);
+    } else {
+      tokenLengths.push(0);
+      tokenValues.push(pixels[i]);
+    }
+    i += step;
+  }
+
+  // --- Entropy codes ---
+  const greenFreqs = new Array(256 + NUM_LENGTH_CODES).fill(0);
+  const redFreqs = new Array(256).fill(0);
+  const blueFreqs = new Array(256).fill(0);
+  const alphaFreqs = new Array(256).fill(0);
+  const distanceFreqs = new Array(NUM_DISTANCE_CODES).fill(0);
+
+  for (let t = 0; t < tokenLengths.length; t++) {
+    const value = tokenValues[t];
+    if (tokenLengths[t] === 0) {
+      greenFreqs[(value >>> 8) & 0xff]++;
+      redFreqs[(value >>> 16) & 0xff]++;
+      blueFreqs[value & 0xff]++;
+      alphaFreqs[value >>> 24]++;
+    } else {
+      greenFreqs[256 + prefixEncode(tokenLengths[t]).symbol]++;
+      distanceFreqs[prefixEncode(value).symbol]++;
+    }
+  }
+
+  const greenLengths = buildCodeLengths(greenFreqs, 15);
+  const redLengths = buildCodeLengths(redFreqs, 15);
+  const blueLengths = buildCodeLengths(blueFreqs, 15);
+  const alphaLengths = buildCodeLengths(alphaFreqs, 15);
+  const distanceLengths = buildCodeLengths(distanceFreqs, 15);
+
+  // --- Bitstream ---
+  const writer = new BitWriter();
+  writer.writeBits(0x2f, 8); // Signature
+  writer.writeBits(width - 1, 14);
+  writer.writeBits(height - 1, 14);
+  writer.writeBits(alphaUsed ? 1 : 0, 1);
+  writer.writeBits(0, 3); // Version
+
+  writer.writeBits(1, 1); // Transform present
+  writer.writeBits(2, 2); // SUBTRACT_GREEN
+  writer.writeBits(0, 1); // No more transforms
+
+  writer.writeBits(0, 1); // No color cache
+  writer.writeBits(0, 1); // No meta prefix codes
+
+  writePrefixCode(writer, greenLengths);
+  writePrefixCode(writer, redLengths);
+  writePrefixCode(writer, blueLengths);
+  writePrefixCode(writer, alphaLengths);
+  writePrefixCode(writer, distanceLengths);
+
+  const green = buildPrefixCode(greenLengths);
+  const red = buildPrefixCode(redLengths);
+  const blue = buildPrefixCode(blueLengths);
+  const alpha = buildPrefixCode(alphaLengths);
+  const distance = buildPrefixCode(distanceLengths);
+
+  for (let t = 0; t < tokenLengths.length; t++) {
+    const value = tokenValues[t];
+    if (tokenLengths[t] === 0) {
+      writeSymbol(writer, green, (value >>> 8) & 0xff);
+      writeSymbol(writer, red, (value >>> 16) & 0xff);
+      writeSymbol(writer, blue, value & 0xff);
+      writeSymbol(writer, alpha, value >>> 24);
+    } else {
+      const length = prefixEncode(tokenLengths[t]);
+      writeSymbol(writer, green, 256 + length.symbol);
+      writer.writeBits(length.extra, length.extraBits);
+      const dist = prefixEncode(value);
+      writeSymbol(writer, distance, dist.symbol);
+      writer.writeBits(dist.extra, dist.extraBits);
+    }
+  }
+
+  return writer.finish();
+};
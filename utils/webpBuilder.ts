@@ -0,0 +1,160 @@
+import { SpriteConfig, ImageDimensions, WebpOptions, ExportProgressHandler } from "../types";
+import { RenderedFrame, EncodedAnimation } from "./frameRenderer";
+import { renderFrames } from "./framePool";
+import { applyPlaybackMode } from "./frameTiming";
+import { encodeVp8l } from "./vp8lEncoder";
+import { concatBytes, asciiBytes } from "./binary";
+
+// VP8X canvas and ANMF sizes are stored as 24-bit "minus one" values
+const MAX_CANVAS_SIZE = 1 << 24;
+const MAX_DURATION = (1 << 24) - 1;
+
+interface RiffChunk {
+  fourcc: string;
+  data: Uint8Array;
+}
+
+/**
+ * Builds a RIFF chunk: FourCC + little-endian size + data, padded to an even length.
+ */
+const makeChunk = (fourcc: string, data: Uint8Array): Uint8Array => {
+  const padding = data.length & 1;
+  const chunk = new Uint8Array(8 + data.length + padding);
+  chunk.set(asciiBytes(fourcc), 0);
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+};
+
+const writeUint24 = (target: Uint8Array, offset: number, value: number) => {
+  target[offset] = value & 0xff;
+  target[offset + 1] = (value >> 8) & 0xff;
+  target[offset + 2] = (value >> 16) & 0xff;
+};
+
+// ANMF duration: whole milliseconds in 24 bits
+const getFrameDurationField = (delayMs: number) => Math.min(MAX_DURATION, Math.round(delayMs));
+
+/**
+ * Splits a still WebP file into its top-level chunks.
+ */
+const readRiffChunks = (bytes: Uint8Array): RiffChunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder('ascii');
+  const chunks: RiffChunk[] = [];
+
+  let offset = 12; // Skip 'RIFF' + size + 'WEBP'
+  while (offset + 8 <= bytes.length) {
+    const fourcc = decoder.decode(bytes.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({ fourcc, data: bytes.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size & 1);
+  }
+  return chunks;
+};
+
+const hasTransparency = (imageData: ImageData) => {
+  const { data } = imageData;
+  for (let p = 3; p < data.length; p += 4) {
+    if (data[p] !== 255) return true;
+  }
+  return false;
+};
+
+/**
+ * Lossy frames use the browser's built-in VP8 encoder; only the bitstream chunks
+ * (ALPH + 'VP8 ') are kept so they can be re-wrapped into ANMF frames.
+ */
+const encodeLossyFrame = async (imageData: ImageData, quality: number): Promise<Uint8Array[]> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = imageData.width;
+  canvas.height = imageData.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not create canvas context");
+  ctx.putImageData(imageData, 0, 0);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/webp', quality / 100));
+  if (!blob || blob.type !== 'image/webp') {
+    throw new Error("当前浏览器不支持 WebP 有损编码，请改用无损模式");
+  }
+
+  const chunks = readRiffChunks(new Uint8Array(await blob.arrayBuffer()));
+  return chunks
+    .filter(chunk => chunk.fourcc === 'ALPH' || chunk.fourcc === 'VP8 ' || chunk.fourcc === 'VP8L')
+    .map(chunk => makeChunk(chunk.fourcc, chunk.data));
+};
+
+export const generateWebp = async (
+  image: HTMLImageElement,
+  config: SpriteConfig,
+  dimensions: ImageDimensions,
+  options: WebpOptions,
+  onProgress: ExportProgressHandler
+): Promise<EncodedAnimation> => {
+  const rendered = await renderFrames(image, config, dimensions, 'alpha', onProgress);
+  const { width, height } = rendered;
+  const frames = applyPlaybackMode(rendered.frames, config.playbackMode);
+
+  if (width > MAX_CANVAS_SIZE || height > MAX_CANVAS_SIZE) {
+    throw new Error("画面尺寸超出 WebP 限制");
+  }
+
+  let anyAlpha = false;
+  const frameChunks: Uint8Array[] = [];
+  // Ping-pong repeats frames; encode each distinct frame only once
+  const bitstreams = new Map<RenderedFrame, Uint8Array[]>();
+
+  for (let i = 0; i < frames.length; i++) {
+    const frame = frames[i];
+    anyAlpha = anyAlpha || hasTransparency(frame.imageData);
+
+    let bitstream = bitstreams.get(frame);
+    if (!bitstream) {
+      bitstream = options.lossless
+        ? [makeChunk('VP8L', encodeVp8l(frame.imageData))]
+        : await encodeLossyFrame(frame.imageData, options.quality);
+      bitstreams.set(frame, bitstream);
+    }
+
+    // ANMF header: X/2, Y/2, width-1, height-1, duration (24-bit each) + flags
+    const header = new Uint8Array(16);
+    writeUint24(header, 0, 0);
+    writeUint24(header, 3, 0);
+    writeUint24(header, 6, width - 1);
+    writeUint24(header, 9, height - 1);
+    writeUint24(header, 12, getFrameDurationField(frame.delay));
+    // Bit 1: do not blend (each frame fully replaces the canvas), bit 0: no disposal
+    header[15] = 0b10;
+
+    frameChunks.push(makeChunk('ANMF', concatBytes([header, ...bitstream])));
+    onProgress(Math.round(((i + 1) / frames.length) * 100), 'encoding');
+  }
+
+  // VP8X: flags (alpha 0x10, animation 0x02) + 3 reserved bytes + canvas size
+  const vp8x = new Uint8Array(10);
+  vp8x[0] = 0x02 | (anyAlpha ? 0x10 : 0);
+  writeUint24(vp8x, 4, width - 1);
+  writeUint24(vp8x, 7, height - 1);
+
+  // ANIM: background color (BGRA, transparent) + loop count (0 = infinite)
+  const anim = new Uint8Array(6);
+  new DataView(anim.buffer).setUint16(4, Math.min(0xffff, config.loopCount), true);
+
+  const body = concatBytes([
+    asciiBytes('WEBP'),
+    makeChunk('VP8X', vp8x),
+    makeChunk('ANIM', anim),
+    ...frameChunks,
+  ]);
+
+  const riffHeader = new Uint8Array(8);
+  riffHeader.set(asciiBytes('RIFF'), 0);
+  new DataView(riffHeader.buffer).setUint32(4, body.length, true);
+
+  return {
+    blob: new Blob([riffHeader, body], { type: 'image/webp' }),
+    width,
+    height,
+    frames: frames.map(({ originalIndex, delay, pivot }) => ({ originalIndex, delay: getFrameDurationField(delay), pivot })),
+  };
+};
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import { createZip, ZipEntry } from "./zipWriter";
+import { crc32 } from "./binary";
+
+const inflateRaw = async (data: Uint8Array) =>
+  new Uint8Array(await new Response(new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'))).arrayBuffer());
+
+// Deterministic bytes that don't compress
+const noise = (length: number) => {
+  const out = new Uint8Array(length);
+  let seed = 12345;
+  for (let i = 0; i < length; i++) {
+    seed = (Math.imul(seed, 1103515245) + 12345) >>> 0;
+    out[i] = seed >>> 24;
+  }
+  return out;
+};
+
+interface ReadEntry {
+  name: string;
+  method: number;
+  flags: number;
+  crc: number;
+  data: Uint8Array;
+}
+
+// Reads the archive through its central directory, like an unzip tool
+const readZip = async (blob: Blob) => {
+  const zip = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(zip.buffer);
+  const decoder = new TextDecoder();
+
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  const directorySize = view.getUint32(end + 12, true);
+  let offset = view.getUint32(end + 16, true);
+  expect(offset + directorySize).toBe(end);
+
+  const entries: ReadEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50);
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const crc = view.getUint32(offset + 16, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(zip.subarray(offset + 46, offset + 46 + nameLength));
+
+    // The local header repeats the same fields
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    expect(view.getUint16(localOffset + 8, true)).toBe(method);
+    expect(view.getUint32(localOffset + 14, true)).toBe(crc);
+    expect(view.getUint32(localOffset + 18, true)).toBe(compressedSize);
+    expect(view.getUint32(localOffset + 22, true)).toBe(size);
+    expect(decoder.decode(zip.subarray(localOffset + 30, localOffset + 30 + nameLength))).toBe(name);
+
+    const start = localOffset + 30 + nameLength + view.getUint16(localOffset + 28, true);
+    const payload = zip.subarray(start, start + compressedSize);
+    const data = method === 8 ? await inflateRaw(payload) : payload;
+    expect(data.length).toBe(size);
+
+    entries.push({ name, method, flags, crc, data });
+    offset += 46 + nameLength;
+  }
+  return entries;
+};
+
+describe("createZip", () => {
+  const text = new TextEncoder().encode('frame,duration\n'.repeat(200));
+  const png = noise(300);
+
+  it("stores entries that read back with their names, data and checksums", async () => {
+    const input: ZipEntry[] = [
+      { name: 'manifest.csv', data: text, deflate: true },
+      { name: 'frames/帧_001.png', data: png },
+      { name: 'empty.txt', data: new Uint8Array(0), deflate: true },
+    ];
+    const blob = await createZip(input);
+    expect(blob.type).toBe('application/zip');
+
+    const entries = await readZip(blob);
+    expect(entries.map(entry => entry.name)).toEqual(input.map(entry => entry.name));
+    entries.forEach((entry, i) => {
+      expect(entry.data).toEqual(input[i].data);
+      expect(entry.crc).toBe(crc32(input[i].data));
+      expect(entry.flags & 0x0800).toBe(0x0800); // UTF-8 names
+    });
+  });
+
+  it("deflates only entries that ask for it and shrink", async () => {
+    const entries = await readZip(await createZip([
+      { name: 'a.csv', data: text, deflate: true },
+      { name: 'b.csv', data: text },
+      { name: 'c.bin', data: png, deflate: true },
+    ]));
+    expect(entries.map(entry => entry.method)).toEqual([8, 0, 0]);
+  });
+
+  it("writes an empty archive", async () => {
+    expect(await readZip(await createZip([]))).toEqual([]);
+  });
+});
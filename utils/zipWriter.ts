@@ -0,0 +1,98 @@
+import { crc32, compress, concatBytes } from "./binary";
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+  // DEFLATE the entry; it falls back to STORE when compression doesn't help.
+  // Leave off for already-compressed data such as PNG files.
+  deflate?: boolean;
+}
+
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const FLAG_UTF8 = 0x0800;
+
+/**
+ * Packs a Date into MS-DOS time and date fields.
+ */
+const toDosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+/**
+ * Builds a ZIP archive in memory (no ZIP64, so entries and the archive must stay below 4 GB).
+ */
+export const createZip = async (entries: ZipEntry[]): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(new Date());
+
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const checksum = crc32(entry.data);
+
+    let method = METHOD_STORE;
+    let payload = entry.data;
+    if (entry.deflate) {
+      const deflated = await compress(entry.data, 'deflate-raw');
+      if (deflated.length < entry.data.length) {
+        method = METHOD_DEFLATE;
+        payload = deflated;
+      }
+    }
+
+    // Local file header
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, 20, true); // Version needed
+    localView.setUint16(6, FLAG_UTF8, true);
+    localView.setUint16(8, method, true);
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, date, true);
+    localView.setUint32(14, checksum, true);
+    localView.setUint32(18, payload.length, true);
+    localView.setUint32(22, entry.data.length, true);
+    localView.setUint16(26, name.length, true);
+    localView.setUint16(28, 0, true); // Extra field length
+    local.set(name, 30);
+
+    // Central directory header
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(4, 20, true); // Version made by
+    centralView.setUint16(6, 20, true); // Version needed
+    centralView.setUint16(8, FLAG_UTF8, true);
+    centralView.setUint16(10, method, true);
+    centralView.setUint16(12, time, true);
+    centralView.setUint16(14, date, true);
+    centralView.setUint32(16, checksum, true);
+    centralView.setUint32(20, payload.length, true);
+    centralView.setUint32(24, entry.data.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true); // Local header offset
+    central.set(name, 46);
+
+    localParts.push(local, payload);
+    centralParts.push(central);
+    offset += local.length + payload.length;
+  }
+
+  const centralDirectory = concatBytes(centralParts);
+
+  // End of central directory record
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralDirectory.length, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...localParts, centralDirectory, end], { type: 'application/zip' });
+};